@@ -1,20 +1,60 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Upload, FileImage, Send, Loader2, BookOpen, Brain, CheckCircle2, AlertTriangle, AlertCircle, History, ArrowLeft, Clock, Calendar, Trash2, MessageSquare, PlayCircle, User, Bot } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, FileImage, Send, Loader2, BookOpen, Brain, CheckCircle2, AlertTriangle, AlertCircle, History, ArrowLeft, Clock, Trash2, PlayCircle, User, Bot, BarChart3, CalendarClock, Lightbulb, Search, Flag, ClipboardCheck, Lock, Sigma, PenLine, ImagePlus, X } from 'lucide-react';
 import AudioRecorder from './components/AudioRecorder';
-import { analyzeHomework, evaluatePracticeResponse } from './services/geminiService';
-import { InitialDiagnosis, HistoryItem, ChatMessage } from './types';
-import { saveToHistory, getHistory, clearHistory } from './services/historyService';
+import HomeworkPages from './components/HomeworkPages';
+import ProgressDashboard from './components/ProgressDashboard';
+import ReviewQueue from './components/ReviewQueue';
+import LanguageSettings from './components/LanguageSettings';
+import ProfileSwitcher, { ProfileDetails, profileName } from './components/ProfileSwitcher';
+import SupervisorView from './components/SupervisorView';
+import ReviewerGate from './components/ReviewerGate';
+import SupervisorNote from './components/SupervisorNote';
+import EvaluationBadge from './components/EvaluationBadge';
+import RichText from './components/RichText';
+import EquationEditor from './components/EquationEditor';
+import DrawingCanvas from './components/DrawingCanvas';
+import AttachmentThumbnail from './components/AttachmentThumbnail';
+import ImageEditor from './components/ImageEditor';
+import ExportMenu from './components/ExportMenu';
+import HistoryCard from './components/HistoryCard';
+import HistoryFilters from './components/HistoryFilters';
+import HistoryBackup from './components/HistoryBackup';
+import { analyzeHomework, evaluatePracticeResponse, formatFeedbackMessage, generateReviewQuestion, requestHint, transcribeRecording } from './services/geminiService';
+import { countHintsUsed, nextHintLevel, TutorPreferences } from './services/tutorApi';
+import { InitialDiagnosis, HistoryItem, ChatMessage, HomeworkPage, ReplyAttachment, ConceptMastery, ReviewCard, AppSettings, ImageEdits, PracticeProgress, LearnerProfile, SupervisorFeedback } from './types';
+import { initHistory, saveToHistory, saveSubmissionToHistory, getHistory, getSubmissionErrors, clearHistory, deleteHistoryItem, flushHistory, updateHistoryItem, updateHistorySession, getSessionTranscript } from './services/historyService';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, filterHistory, getHistorySubjects, getHistoryTags } from './services/historyFilterService';
+import { createStoredMediaUrl, loadMedia, releaseMediaUrl, resolveChatMedia, saveMedia } from './services/mediaService';
+import { recordDiagnosis, recordEvaluation, getConceptMasteries, clearLearnerModel } from './services/learnerModelService';
+import { syncReviewQueue, getDueReviews, recordReview, gradeReviewSession, clearReviewQueue } from './services/reviewService';
+import { getSettings, saveSettings } from './services/settingsService';
+import { getAnnotation } from './services/supervisorService';
+import { createProfile, getActiveProfile, getProfiles, setActiveProfile, updateProfile } from './services/profileService';
+import { applyImageEdits, isHeic, prepareUploadImage } from './services/imageService';
+import { advancePractice, getPracticeLadder, getQuestionTranscript, startPracticeProgress } from './services/practiceLadderService';
+import { createI18n, hintLevelKey, severityKey, I18nContext } from './i18n';
 
 const MAX_FILE_SIZE_MB = 10;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// Photos are downscaled before upload, so larger originals are fine
+const MAX_PHOTO_SIZE_MB = 30;
+const MAX_PHOTO_SIZE_BYTES = MAX_PHOTO_SIZE_MB * 1024 * 1024;
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'];
+const ACCEPTED_UPLOADS = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif,application/pdf';
+const MAX_PAGES = 10;
+const MAX_REPLY_ATTACHMENTS = 4;
+
+type AppView = 'tutor' | 'history' | 'progress' | 'review' | 'supervisor';
 
 const App: React.FC = () => {
   // Analysis State
-  const [image, setImage] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [pages, setPages] = useState<HomeworkPage[]>([]);
   const [textInput, setTextInput] = useState('');
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  // Photos being converted/downscaled after upload
+  const [isPreparingImages, setIsPreparingImages] = useState(false);
+  // Newly uploaded photos waiting for the crop/rotate step, first one is open
+  const [editQueue, setEditQueue] = useState<string[]>([]);
   
   // Stage 1 Result
   const [diagnosis, setDiagnosis] = useState<InitialDiagnosis | null>(null);
@@ -23,20 +63,66 @@ const App: React.FC = () => {
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [replyText, setReplyText] = useState('');
   const [replyAudio, setReplyAudio] = useState<Blob | null>(null);
+  // Reply text holds an editable transcript of `replyAudio`
+  const [hasTranscript, setHasTranscript] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  // Sketches attached to the next reply
+  const [replyAttachments, setReplyAttachments] = useState<ReplyAttachment[]>([]);
+  const [composerPanel, setComposerPanel] = useState<'equation' | 'sketch' | null>(null);
+  // Position on the diagnosis' ladder of practice questions
+  const [practiceProgress, setPracticeProgress] = useState<PracticeProgress | null>(null);
   const [isMasteryAchieved, setIsMasteryAchieved] = useState(false);
+  // History entry the current session is saved under
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  // Review card being practised, when the session is a spaced review
+  const [reviewCardId, setReviewCardId] = useState<string | null>(null);
+
+  // Tutor reply text while it is still streaming in
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // History State
+  // History & Progress State
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [showHistory, setShowHistory] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [concepts, setConcepts] = useState<ConceptMastery[]>([]);
+  const [dueReviews, setDueReviews] = useState<ReviewCard[]>([]);
+  const [loadingReviewId, setLoadingReviewId] = useState<string | null>(null);
+  const [view, setView] = useState<AppView>('tutor');
+  // Review mode stays open only until the reviewer leaves it
+  const [isReviewerUnlocked, setIsReviewerUnlocked] = useState(false);
+
+  // Learner using the app; the state below is loaded from their profile
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(getProfiles);
+  const [activeProfile, setActiveProfileState] = useState<LearnerProfile>(getActiveProfile);
+
+  // Interface and tutoring language
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const i18n = useMemo(() => createI18n(settings.uiLocale), [settings.uiLocale]);
+  const { t, formatDate, describeError } = i18n;
+  const preferences: TutorPreferences = { language: settings.tutorLanguage, gradeLevel: activeProfile.gradeLevel };
+  
+  // Guards against a slower load of an earlier session landing after a newer one,
+  // and against tutor replies landing in a session opened while they were running
+  const sessionLoadRef = useRef(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replyFileInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Loads everything stored for the active profile
+  const loadProfileData = async () => {
+    setSettings(getSettings());
+    setConcepts(getConceptMasteries());
+    const storedHistory = await initHistory();
+    setHistory(storedHistory);
+    syncReviewQueue(storedHistory);
+    setDueReviews(getDueReviews());
+  };
+
   useEffect(() => {
-    setHistory(getHistory());
+    loadProfileData();
   }, []);
 
   // Scroll to chat bottom
@@ -44,38 +130,180 @@ const App: React.FC = () => {
     if (chatEndRef.current) {
         chatEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [chatHistory, diagnosis]);
+  }, [chatHistory, diagnosis, streamingReply]);
+
+  // Keep the saved transcript in sync as the dialogue continues
+  useEffect(() => {
+    if (!activeHistoryId || chatHistory.length === 0) return;
+    if (updateHistorySession(activeHistoryId, chatHistory, isMasteryAchieved, practiceProgress ?? undefined)) {
+      setHistory(getHistory());
+    }
+  }, [activeHistoryId, chatHistory, isMasteryAchieved, practiceProgress]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.uiLocale;
+  }, [settings.uiLocale]);
+
+  useEffect(() => {
+    if (view !== 'supervisor') setIsReviewerUnlocked(false);
+  }, [view]);
+
+  const handleSettingsChange = (next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+  };
+
+  // `initialSettings` seeds the settings of a profile that has just been created
+  const handleProfileSwitch = async (profileId: string, initialSettings?: Partial<AppSettings>) => {
+    clearPages();
+    resetSession();
+    setTextInput('');
+    setAudioBlob(null);
+    setHistoryFilter(EMPTY_HISTORY_FILTER);
+    setView('tutor');
+    // Writes still queued belong to the profile being left
+    await flushHistory();
+    setActiveProfile(profileId);
+    if (initialSettings) saveSettings({ ...getSettings(), ...initialSettings });
+    setActiveProfileState(getActiveProfile());
+    await loadProfileData();
+  };
+
+  const handleProfileCreate = ({ name, gradeLevel, tutorLanguage }: ProfileDetails) => {
+    const profile = createProfile({ name, gradeLevel });
+    setProfiles(getProfiles());
+    handleProfileSwitch(profile.id, { tutorLanguage });
+  };
+
+  const handleProfileUpdate = ({ name, gradeLevel }: ProfileDetails) => {
+    const updated = updateProfile(activeProfile.id, { name, gradeLevel });
+    if (!updated) return;
+    setProfiles(getProfiles());
+    setActiveProfileState(updated);
+  };
 
   const validateFile = (file: File): string | null => {
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return "Invalid file format. Please upload a JPG, PNG, or WebP image.";
+    if (!ALLOWED_TYPES.includes(file.type) && !isHeic(file)) {
+      return t('upload.invalidType');
     }
-    if (file.size > MAX_FILE_SIZE_BYTES) {
-      return `File size exceeds the ${MAX_FILE_SIZE_MB}MB limit. Please upload a smaller image.`;
+    const isPdf = file.type === 'application/pdf';
+    if (file.size > (isPdf ? MAX_FILE_SIZE_BYTES : MAX_PHOTO_SIZE_BYTES)) {
+      return t('upload.tooLarge', { size: isPdf ? MAX_FILE_SIZE_MB : MAX_PHOTO_SIZE_MB });
     }
     return null;
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const validationError = validateFile(file);
-      if (validationError) {
-        setError(validationError);
-        e.target.value = ''; 
-        return;
+  // Photos are converted and downscaled; PDFs go through untouched
+  const prepareUpload = (file: File): Promise<File> =>
+    file.type === 'application/pdf' ? Promise.resolve(file) : prepareUploadImage(file);
+
+  // Recordings and attachments in chat bubbles are object URLs owned by the live session
+  const releaseChatMedia = () => {
+    chatHistory.forEach(msg => {
+      if (msg.audioUrl) releaseMediaUrl(msg.audioUrl);
+      msg.attachments?.forEach(attachment => releaseMediaUrl(attachment.url));
+    });
+  };
+
+  // Discards the unsent reply
+  const clearReply = () => {
+    replyAttachments.forEach(attachment => URL.revokeObjectURL(attachment.previewUrl));
+    setReplyAttachments([]);
+    setReplyText('');
+    setReplyAudio(null);
+    setHasTranscript(false);
+    setComposerPanel(null);
+  };
+
+  // Clears the diagnosis and dialogue so a fresh submission can be analyzed
+  const resetSession = () => {
+    sessionLoadRef.current++;
+    releaseChatMedia();
+    clearReply();
+    setDiagnosis(null);
+    setChatHistory([]);
+    setPracticeProgress(null);
+    setIsMasteryAchieved(false);
+    setActiveHistoryId(null);
+    setReviewCardId(null);
+    setError(null);
+  };
+
+  const clearPages = () => {
+    pages.forEach(page => URL.revokeObjectURL(page.previewUrl));
+    setPages([]);
+    setEditQueue([]);
+  };
+
+  const addPages = async (files: File[]) => {
+    const validationError = files.map(validateFile).find(Boolean);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    // Adding to a diagnosed submission starts a new one
+    const basePages = diagnosis ? [] : pages;
+    if (basePages.length + files.length > MAX_PAGES) {
+      setError(t('upload.tooManyPages', { max: MAX_PAGES }));
+      return;
+    }
+    if (diagnosis) clearPages();
+
+    setIsPreparingImages(true);
+    setError(null);
+    try {
+      const newPages: HomeworkPage[] = [];
+      for (const original of files) {
+        const file = await prepareUpload(original);
+        newPages.push({
+          id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+          file,
+          original,
+          previewUrl: URL.createObjectURL(file),
+        });
       }
+      setPages([...basePages, ...newPages]);
+      setEditQueue(newPages.filter(page => page.file.type !== 'application/pdf').map(page => page.id));
+      resetSession();
+    } catch (err) {
+      console.error("Failed to prepare upload", err);
+      setError(t('upload.processingFailed'));
+    } finally {
+      setIsPreparingImages(false);
+    }
+  };
 
-      setImage(file);
-      setPreviewUrl(URL.createObjectURL(file));
-      // Reset all states
-      setDiagnosis(null);
-      setChatHistory([]);
-      setReplyText('');
-      setReplyAudio(null);
-      setIsMasteryAchieved(false);
-      setError(null);
+  // Crop/rotate step: re-renders the page from its original upload
+  const handleApplyEdits = async (id: string, edits: ImageEdits) => {
+    const page = pages.find(p => p.id === id);
+    setEditQueue(queue => queue.filter(queued => queued !== id));
+    if (!page) return;
+
+    setIsPreparingImages(true);
+    try {
+      const file = await applyImageEdits(page.original, edits);
+      URL.revokeObjectURL(page.previewUrl);
+      setPages(current => current.map(p => (p.id === id ? { ...p, file, edits, previewUrl: URL.createObjectURL(file) } : p)));
+    } catch (err) {
+      console.error("Failed to apply image edits", err);
+      setError(t('upload.processingFailed'));
+    } finally {
+      setIsPreparingImages(false);
+    }
+  };
+
+  const handleEditPage = (id: string) => {
+    setEditQueue(queue => [id, ...queue.filter(queued => queued !== id)]);
+  };
+
+  const editingPageIndex = pages.findIndex(page => page.id === editQueue[0]);
+  const editingPage = editingPageIndex === -1 ? null : pages[editingPageIndex];
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addPages(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -84,29 +312,30 @@ const App: React.FC = () => {
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      const validationError = validateFile(file);
-      if (validationError) {
-        setError(validationError);
-        return;
-      }
-
-      setImage(file);
-      setPreviewUrl(URL.createObjectURL(file));
-      setDiagnosis(null);
-      setChatHistory([]);
-      setReplyText('');
-      setReplyAudio(null);
-      setIsMasteryAchieved(false);
-      setError(null);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addPages(Array.from(e.dataTransfer.files));
     }
   };
 
+  const handleMovePage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= pages.length) return;
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPages(reordered);
+  };
+
+  const handleRemovePage = (id: string) => {
+    const page = pages.find(p => p.id === id);
+    if (page) URL.revokeObjectURL(page.previewUrl);
+    setPages(pages.filter(p => p.id !== id));
+    setEditQueue(queue => queue.filter(queued => queued !== id));
+  };
+
   // STAGE 1: Initial Diagnosis
   const handleInitialAnalysis = async () => {
-    if (!image) {
-      setError("Please upload an image of your homework first.");
+    if (pages.length === 0) {
+      setError(t('upload.missing'));
       return;
     }
 
@@ -114,119 +343,416 @@ const App: React.FC = () => {
     setError(null);
 
     try {
-      const data = await analyzeHomework(image, textInput, audioBlob);
-      setDiagnosis(data);
-      
-      // Initialize chat with Tutor's first instruction
-      setChatHistory([{
+      const report = await analyzeHomework(pages.map(page => page.file), textInput, audioBlob, preferences);
+
+      // Each error gets its own thread, opened by the Tutor's first instruction
+      const initialChats = report.errors.map((data): ChatMessage[] => [{
         role: 'tutor',
         content: data.next_instruction,
         timestamp: Date.now(),
-        feedbackType: 'INFO'
+        feedbackType: 'INFO',
+        questionIndex: startPracticeProgress(getPracticeLadder(data)).current
       }]);
       
-      // Save to history
-      saveToHistory(data, textInput);
-      setHistory(getHistory());
+      // Save to history, with the pages, and start on the most important error
+      const pageMedia = pages.map(page => saveMedia(page.file));
+      const saved = saveSubmissionToHistory(report.errors, textInput, initialChats, pageMedia);
+      const updatedHistory = getHistory();
+      setHistory(updatedHistory);
+      await openSession(saved[0]);
+
+      // Schedule the misconceptions for spaced review
+      syncReviewQueue(updatedHistory);
+      setDueReviews(getDueReviews());
+
+      // Feed the learner model
+      report.errors.forEach(recordDiagnosis);
+      setConcepts(getConceptMasteries());
       
       // Clear initial inputs
       setReplyText('');
       setReplyAudio(null);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred.");
+      setError(describeError(err));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Voice replies are transcribed into the reply box so the student can check them
+  const handleReplyAudio = async (blob: Blob | null) => {
+    setReplyAudio(blob);
+    setHasTranscript(false);
+    if (!blob) return;
+
+    setIsTranscribing(true);
+    try {
+      const { transcript } = await transcribeRecording(blob, preferences);
+      if (transcript) {
+        setReplyText(prev => (prev.trim() ? `${prev.trim()} ${transcript}` : transcript));
+        setHasTranscript(true);
+      }
+    } catch (err: any) {
+      // The recording itself is still sent for evaluation
+      setError(describeError(err));
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleInsertEquation = (latex: string) => {
+    setReplyText(prev => (prev.trim() ? `${prev.trim()} $${latex}$` : `$${latex}$`));
+    setComposerPanel(null);
+  };
+
+  const toReplyAttachment = (file: Blob, name?: string): ReplyAttachment => ({
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+    file,
+    name,
+    previewUrl: URL.createObjectURL(file),
+  });
+
+  const handleAttachSketch = (snapshot: Blob) => {
+    if (replyAttachments.length >= MAX_REPLY_ATTACHMENTS) {
+      setError(t('chat.tooManyAttachments', { max: MAX_REPLY_ATTACHMENTS }));
+      return;
+    }
+    setReplyAttachments(prev => [...prev, toReplyAttachment(snapshot)]);
+    setComposerPanel(null);
+  };
+
+  // Photos of work done on paper; same rules and preprocessing as the homework upload
+  const handleAttachPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const validationError = files.map(validateFile).find(Boolean);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (replyAttachments.length + files.length > MAX_REPLY_ATTACHMENTS) {
+      setError(t('chat.tooManyAttachments', { max: MAX_REPLY_ATTACHMENTS }));
+      return;
+    }
+    setError(null);
+    setIsPreparingImages(true);
+    try {
+      const prepared = await Promise.all(files.map(prepareUpload));
+      setReplyAttachments(prev => [...prev, ...prepared.map(file => toReplyAttachment(file, file.name))]);
+    } catch (err) {
+      console.error("Failed to prepare attachment", err);
+      setError(t('upload.processingFailed'));
+    } finally {
+      setIsPreparingImages(false);
+    }
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    const attachment = replyAttachments.find(a => a.id === id);
+    if (attachment) URL.revokeObjectURL(attachment.previewUrl);
+    setReplyAttachments(replyAttachments.filter(a => a.id !== id));
+  };
+
+  // Other errors found in the same submission, each with its own thread
+  const activeItem = history.find(item => item.id === activeHistoryId);
+  const visibleHistory = filterHistory(history, historyFilter);
+  const submissionErrors = activeItem ? getSubmissionErrors(activeItem, history) : [];
+  const nextOpenError = submissionErrors.find(item => item.id !== activeHistoryId && !item.mastery_achieved);
+
+  // Switching threads keeps the uploaded pages, so each error can be highlighted on them
+  const handleSelectError = (item: HistoryItem) => {
+    if (item.id === activeHistoryId || isLoading) return;
+    openSession(item);
+    setError(null);
+  };
+
+  // Question being practised on the diagnosis' ladder
+  const ladder = diagnosis ? getPracticeLadder(diagnosis) : [];
+  const currentQuestionIndex = practiceProgress?.current ?? 0;
+  const currentQuestion = ladder[currentQuestionIndex] ?? diagnosis?.new_practice_question;
+
+  const canSendReply = (!!replyText || !!replyAudio || replyAttachments.length > 0) && !isPreparingImages;
+
   // STAGE 2: Conversational Feedback
   const handlePracticeReply = async () => {
-    if ((!replyText && !replyAudio) || !diagnosis) return;
+    if (!canSendReply || !diagnosis || !practiceProgress || isLoading || isTranscribing) return;
+    const questionIndex = practiceProgress.current;
 
     // 1. Optimistic Update: Add User Message
+    // Its recording and attachments are stored with the session
     const userMsg: ChatMessage = {
         role: 'user',
-        content: replyText || "(Audio Response)",
-        timestamp: Date.now()
+        content: replyText || (replyAudio ? t('chat.audioResponse') : t('chat.attachmentResponse')),
+        audioUrl: replyAudio ? createStoredMediaUrl(replyAudio) : undefined,
+        attachments: replyAttachments.length > 0
+            ? replyAttachments.map(a => ({ url: createStoredMediaUrl(a.file), mimeType: a.file.type, name: a.name }))
+            : undefined,
+        timestamp: Date.now(),
+        questionIndex
     };
+    const attachedImages = replyAttachments.map(a => a.file);
+    replyAttachments.forEach(a => URL.revokeObjectURL(a.previewUrl));
     const updatedHistory = [...chatHistory, userMsg];
+    // The tutor only sees the dialogue about the current question
+    const questionTranscript = getQuestionTranscript(updatedHistory, questionIndex);
     setChatHistory(updatedHistory);
     setReplyText('');
     setReplyAudio(null);
+    setHasTranscript(false);
+    setReplyAttachments([]);
+    setComposerPanel(null);
     setIsLoading(true);
+    const loadId = sessionLoadRef.current;
 
     try {
         const feedback = await evaluatePracticeResponse(
-            { topic: diagnosis.new_practice_question.topic, question: diagnosis.new_practice_question.question_text },
-            updatedHistory,
+            { topic: currentQuestion.topic, question: currentQuestion.question_text },
+            questionTranscript,
             userMsg.content,
-            replyAudio
+            // A checked transcript replaces the recording, unless it was cleared
+            hasTranscript && replyText.trim() ? null : replyAudio,
+            attachedImages,
+            preferences,
+            text => {
+                if (loadId === sessionLoadRef.current) setStreamingReply(text);
+            }
         );
+        if (loadId !== sessionLoadRef.current) return;
 
         // 2. Add Tutor Response
         const tutorMsg: ChatMessage = {
             role: 'tutor',
-            content: `${feedback.feedback_message} ${feedback.next_instruction}`,
+            content: formatFeedbackMessage(feedback.feedback_message, feedback.next_instruction),
             timestamp: Date.now(),
-            feedbackType: feedback.evaluation_result as any
+            feedbackType: feedback.evaluation_result as any,
+            questionIndex
         };
-        setChatHistory(prev => [...prev, tutorMsg]);
+        const { progress, move } = advancePractice(practiceProgress, feedback, [...questionTranscript, tutorMsg]);
+        const newMessages = [tutorMsg];
+        if (move === 'up' || move === 'down') {
+            // Moving to another question: introduce it, or pick up where it was left
+            const resumed = getQuestionTranscript(updatedHistory, progress.current).length > 0;
+            newMessages.push({
+                role: 'tutor',
+                content: `${t(resumed ? 'ladder.resume' : move === 'up' ? 'ladder.stepUp' : 'ladder.stepDown')}\n\n${ladder[progress.current].question_text}`,
+                timestamp: Date.now(),
+                feedbackType: 'INFO',
+                questionIndex: progress.current
+            });
+        }
+        setChatHistory(prev => [...prev, ...newMessages]);
+        setPracticeProgress(progress);
 
-        if (feedback.dialogue_action === 'MASTERY_ACHIEVED') {
+        // Mastery is only declared once the whole ladder is passed
+        if (reviewCardId && move === 'complete') {
+            recordReview(reviewCardId, gradeReviewSession([...updatedHistory, tutorMsg]));
+            setDueReviews(getDueReviews());
+        }
+
+        if (move === 'complete') {
             setIsMasteryAchieved(true);
         }
 
+        const topic = diagnosis.new_practice_question.topic;
+        const hintsUsed = countHintsUsed(updatedHistory);
+        recordEvaluation(topic, feedback.evaluation_result, hintsUsed);
+        if (move === 'complete') {
+            recordEvaluation(topic, 'MASTERY_ACHIEVED', hintsUsed);
+        }
+        setConcepts(getConceptMasteries());
+
+    } catch (err: any) {
+        if (loadId === sessionLoadRef.current) setError(describeError(err));
+    } finally {
+        setStreamingReply(null);
+        setIsLoading(false);
+    }
+  };
+
+  // Hint Ladder: each request since the last answer climbs one level
+  const handleRequestHint = async () => {
+    if (!diagnosis || !practiceProgress) return;
+
+    const questionIndex = practiceProgress.current;
+    const questionTranscript = getQuestionTranscript(chatHistory, questionIndex);
+    const level = nextHintLevel(questionTranscript);
+    setIsLoading(true);
+    setError(null);
+    const loadId = sessionLoadRef.current;
+
+    try {
+        const hint = await requestHint(
+            { topic: currentQuestion.topic, question: currentQuestion.question_text },
+            questionTranscript,
+            level,
+            preferences
+        );
+        if (loadId !== sessionLoadRef.current) return;
+        const hintMsg: ChatMessage = {
+            role: 'tutor',
+            content: hint.hint_text,
+            timestamp: Date.now(),
+            feedbackType: 'HINT',
+            hintLevel: level,
+            questionIndex
+        };
+        setChatHistory(prev => [...prev, hintMsg]);
     } catch (err: any) {
-        setError(err.message || "Failed to get feedback.");
+        if (loadId === sessionLoadRef.current) setError(describeError(err));
     } finally {
         setIsLoading(false);
     }
   };
 
-  const handleHistorySelect = (item: HistoryItem) => {
+  // Resume a saved dialogue where it stopped; resolves false if another session was opened meanwhile
+  const openSession = async (item: HistoryItem): Promise<boolean> => {
+    const loadId = ++sessionLoadRef.current;
+    const transcript = await resolveChatMedia(getSessionTranscript(item));
+    if (loadId !== sessionLoadRef.current) return false;
+
+    releaseChatMedia();
+    clearReply();
     setDiagnosis(item);
-    setShowHistory(false);
-    
-    // Restore basic chat state
-    setChatHistory([{
-        role: 'tutor',
-        content: item.next_instruction,
-        timestamp: item.timestamp,
-        feedbackType: 'INFO'
-    }]);
+    setChatHistory(transcript);
+    setPracticeProgress(item.practice_progress ?? startPracticeProgress(getPracticeLadder(item)));
+    setIsMasteryAchieved(!!item.mastery_achieved);
+    setActiveHistoryId(item.id);
+    setReviewCardId(item.review_of ?? null);
+    return true;
+  };
+
+  // Homework pages saved with a session, shown read-only; evicted pages keep their place
+  // as placeholders, so the diagnosis' page numbers still point at the right photo
+  const restorePages = async (item: HistoryItem) => {
+    const loadId = sessionLoadRef.current;
+    const blobs = await Promise.all((item.page_media ?? []).map(loadMedia));
+    if (loadId !== sessionLoadRef.current) return;
+    setPages(blobs.map((blob, index): HomeworkPage => {
+      const file = new File(blob ? [blob] : [], `page-${index + 1}`, { type: blob?.type ?? '' });
+      return {
+        id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+        file,
+        original: file,
+        previewUrl: blob ? URL.createObjectURL(file) : '',
+        unavailable: !blob,
+      };
+    }));
+  };
+
+  const handleHistorySelect = async (item: HistoryItem) => {
+    setView('tutor');
     
     // Clear others
-    setImage(null);
-    setPreviewUrl(null);
+    clearPages();
     setAudioBlob(null);
-    setReplyText('');
-    setReplyAudio(null);
     setError(null);
-    setIsMasteryAchieved(false);
+
+    if (await openSession(item)) await restorePages(item);
   };
 
   const handleClearHistory = () => {
-    if (window.confirm("Are you sure you want to clear all history?")) {
+    if (window.confirm(t('history.clearConfirm'))) {
       clearHistory();
+      clearReviewQueue();
       setHistory([]);
+      setDueReviews([]);
+      setActiveHistoryId(null);
+      setReviewCardId(null);
     }
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  // Picks up sessions added or removed outside the live session, and their review cards
+  const refreshHistory = () => {
+    const updatedHistory = getHistory();
+    setHistory(updatedHistory);
+    syncReviewQueue(updatedHistory);
+    setDueReviews(getDueReviews());
+  };
+
+  const handleToggleStar = (item: HistoryItem) => {
+    if (updateHistoryItem(item.id, { starred: !item.starred })) setHistory(getHistory());
+  };
+
+  const handleTagsChange = (item: HistoryItem, tags: string[]) => {
+    if (updateHistoryItem(item.id, { tags })) setHistory(getHistory());
+  };
+
+  const handleSupervisorFeedback = (item: HistoryItem, feedback: SupervisorFeedback) => {
+    if (updateHistoryItem(item.id, { supervisor_feedback: feedback })) setHistory(getHistory());
+  };
+
+  const handleDeleteHistoryItem = (item: HistoryItem) => {
+    if (!window.confirm(t('history.deleteConfirm'))) return;
+    deleteHistoryItem(item.id);
+    refreshHistory();
+    // The open session can no longer be saved, so close it as "upload new" would
+    if (item.id === activeHistoryId) {
+      clearPages();
+      resetSession();
+    }
+  };
+
+  // Spaced review: generate a fresh variant question and open it as a live session
+  const handleStartReview = async (card: ReviewCard) => {
+    setLoadingReviewId(card.historyId);
+    setError(null);
+
+    try {
+      const source = history.find(item => item.id === card.historyId);
+      const question = await generateReviewQuestion(card, source?.new_practice_question.question_text ?? "", preferences);
+      const reviewDiagnosis: InitialDiagnosis = {
+        stage: "INITIAL_DIAGNOSIS",
+        conceptual_misunderstanding: card.misconception,
+        new_practice_question: {
+          subject: card.subject,
+          topic: question.topic,
+          question_text: question.question_text,
+        },
+        tutor_feedback: t('review.sessionIntro', { number: card.repetitions + 1 }),
+        next_instruction: question.next_instruction,
+        status: "Review",
+      };
+      const initialChat: ChatMessage[] = [{
+        role: 'tutor',
+        content: question.next_instruction,
+        timestamp: Date.now(),
+        feedbackType: 'INFO'
+      }];
+
+      const saved = saveToHistory(reviewDiagnosis, source?.user_context ?? "", initialChat, card.historyId);
+      setHistory(getHistory());
+
+      clearPages();
+      resetSession();
+      setDiagnosis(reviewDiagnosis);
+      setChatHistory(initialChat);
+      setPracticeProgress(startPracticeProgress(getPracticeLadder(reviewDiagnosis)));
+      setActiveHistoryId(saved.id);
+      setReviewCardId(card.historyId);
+      setView('tutor');
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoadingReviewId(null);
+    }
+  };
+
+  const handleResetProgress = () => {
+    if (window.confirm(t('progress.resetConfirm'))) {
+      clearLearnerModel();
+      setConcepts([]);
+    }
   };
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen bg-slate-50 text-slate-800 font-sans">
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-10">
         <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => setShowHistory(false)}>
+          <div className="flex items-center gap-2 cursor-pointer" onClick={() => setView('tutor')}>
             <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white font-bold text-xl">
               O
             </div>
@@ -237,83 +763,220 @@ const App: React.FC = () => {
           
           <div className="flex items-center gap-4">
              <button 
-              onClick={() => setShowHistory(!showHistory)}
+              onClick={() => setView(view === 'review' ? 'tutor' : 'review')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === 'review' 
+                  ? 'bg-blue-100 text-blue-700' 
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+             >
+               {view === 'review' ? <ArrowLeft size={18} /> : <CalendarClock size={18} />}
+               {view === 'review' ? t('common.backToTutor') : t('nav.dueForReview')}
+               {view !== 'review' && dueReviews.length > 0 && (
+                 <span className="min-w-[20px] h-5 px-1.5 rounded-full bg-amber-500 text-white text-xs font-bold flex items-center justify-center">
+                   {dueReviews.length}
+                 </span>
+               )}
+             </button>
+             <button 
+              onClick={() => setView(view === 'progress' ? 'tutor' : 'progress')}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                showHistory 
+                view === 'progress' 
                   ? 'bg-blue-100 text-blue-700' 
                   : 'text-slate-600 hover:bg-slate-100'
               }`}
              >
-               {showHistory ? <ArrowLeft size={18} /> : <History size={18} />}
-               {showHistory ? "Back to Tutor" : "History"}
+               {view === 'progress' ? <ArrowLeft size={18} /> : <BarChart3 size={18} />}
+               {view === 'progress' ? t('common.backToTutor') : t('nav.progress')}
              </button>
+             <button 
+              onClick={() => setView(view === 'supervisor' ? 'tutor' : 'supervisor')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === 'supervisor' 
+                  ? 'bg-blue-100 text-blue-700' 
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+             >
+               {view === 'supervisor' ? <ArrowLeft size={18} /> : <ClipboardCheck size={18} />}
+               {view === 'supervisor' ? t('common.backToTutor') : t('nav.supervisor')}
+             </button>
+             <button 
+              onClick={() => setView(view === 'history' ? 'tutor' : 'history')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === 'history' 
+                  ? 'bg-blue-100 text-blue-700' 
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+             >
+               {view === 'history' ? <ArrowLeft size={18} /> : <History size={18} />}
+               {view === 'history' ? t('common.backToTutor') : t('nav.history')}
+             </button>
+             <ProfileSwitcher
+               profiles={profiles}
+               activeProfile={activeProfile}
+               tutorLanguage={settings.tutorLanguage}
+               disabled={isLoading || loadingReviewId !== null}
+               onSwitch={handleProfileSwitch}
+               onCreate={handleProfileCreate}
+               onUpdate={handleProfileUpdate}
+             />
+             <LanguageSettings settings={settings} onChange={handleSettingsChange} />
           </div>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-8">
         
-        {showHistory ? (
+        {view === 'history' ? (
           // HISTORY VIEW
           <div className="animate-fade-in space-y-6">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
                 <Clock className="w-6 h-6 text-slate-400" />
-                Learning History
+                {t('history.title')}
+                {visibleHistory.length < history.length && (
+                  <span className="text-sm font-medium text-slate-400">
+                    {t('history.matchCount', { shown: visibleHistory.length, total: history.length })}
+                  </span>
+                )}
               </h2>
-              {history.length > 0 && (
-                <button 
-                  onClick={handleClearHistory}
-                  className="flex items-center gap-2 text-red-500 hover:text-red-700 text-sm font-medium px-3 py-1.5 hover:bg-red-50 rounded-lg transition-colors"
-                >
-                  <Trash2 size={16} />
-                  Clear History
-                </button>
-              )}
+              <div className="flex items-center gap-1">
+                <HistoryBackup canExport={history.length > 0} onImported={refreshHistory} />
+                {history.length > 0 && (
+                  <button 
+                    onClick={handleClearHistory}
+                    className="flex items-center gap-2 text-red-500 hover:text-red-700 text-sm font-medium px-3 py-1.5 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 size={16} />
+                    {t('history.clear')}
+                  </button>
+                )}
+              </div>
             </div>
 
             {history.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-20 text-slate-400 bg-white rounded-2xl border border-slate-200 border-dashed">
                 <History className="w-16 h-16 mb-4 opacity-20" />
-                <p className="text-lg font-medium">No history yet</p>
-                <p className="text-sm">Upload homework to start your learning journey.</p>
+                <p className="text-lg font-medium">{t('history.empty')}</p>
+                <p className="text-sm">{t('history.emptyHint')}</p>
                 <button 
-                  onClick={() => setShowHistory(false)}
+                  onClick={() => setView('tutor')}
                   className="mt-6 text-blue-600 font-semibold hover:underline"
                 >
-                  Start New Analysis
+                  {t('common.startNewAnalysis')}
                 </button>
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {history.map((item) => (
-                  <button
-                    key={item.id}
-                    onClick={() => handleHistorySelect(item)}
-                    className="bg-white p-5 rounded-xl border border-slate-200 hover:border-blue-400 hover:shadow-md transition-all text-left group"
-                  >
-                    <div className="flex justify-between items-start mb-3">
-                      <div className="flex items-center gap-2 text-xs text-slate-400 font-medium bg-slate-50 px-2 py-1 rounded-md">
-                        <Calendar size={12} />
-                        {formatDate(item.timestamp)}
-                      </div>
-                      <div className="px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase rounded-md">
-                        {item.new_practice_question.subject || "Topic"}
-                      </div>
-                    </div>
-                    
-                    <h3 className="font-bold text-slate-800 mb-1 group-hover:text-blue-600 transition-colors">
-                      {item.new_practice_question.topic}
-                    </h3>
-                    
-                    <div className="flex items-start gap-2 text-sm text-slate-600 line-clamp-2">
-                       <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
-                       <span className="text-slate-500">{item.conceptual_misunderstanding}</span>
-                    </div>
-                  </button>
-                ))}
+              <>
+                <HistoryFilters
+                  filter={historyFilter}
+                  onChange={setHistoryFilter}
+                  subjects={getHistorySubjects(history)}
+                  tags={getHistoryTags(history)}
+                />
+                {visibleHistory.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-16 text-slate-400 bg-white rounded-2xl border border-slate-200 border-dashed">
+                    <Search className="w-12 h-12 mb-4 opacity-20" />
+                    <p className="text-lg font-medium">{t('history.noMatches')}</p>
+                    <button
+                      onClick={() => setHistoryFilter(EMPTY_HISTORY_FILTER)}
+                      className="mt-4 text-blue-600 font-semibold hover:underline"
+                    >
+                      {t('history.filter.clear')}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {visibleHistory.map((item) => (
+                      <HistoryCard
+                        key={item.id}
+                        item={item}
+                        errorCount={getSubmissionErrors(item, history).length}
+                        onOpen={handleHistorySelect}
+                        onToggleStar={handleToggleStar}
+                        onTagsChange={handleTagsChange}
+                        onDelete={handleDeleteHistoryItem}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ) : view === 'supervisor' ? (
+          // TEACHER / PARENT REVIEW MODE
+          <div className="animate-fade-in space-y-6">
+            <div className="flex items-start justify-between gap-4 mb-6">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+                  <ClipboardCheck className="w-6 h-6 text-slate-400" />
+                  {t('supervisor.title', { name: profileName(activeProfile, t) })}
+                </h2>
+                <p className="text-sm text-slate-500 mt-1">{t('supervisor.intro')}</p>
+              </div>
+              {isReviewerUnlocked && (
+                <button
+                  onClick={() => setView('tutor')}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100"
+                >
+                  <Lock size={16} />
+                  {t('supervisor.lock')}
+                </button>
+              )}
+            </div>
+            {isReviewerUnlocked ? (
+              <SupervisorView
+                history={history}
+                learnerName={profileName(activeProfile, t)}
+                onFeedbackChange={handleSupervisorFeedback}
+              />
+            ) : (
+              <ReviewerGate
+                pinHash={settings.reviewerPinHash}
+                onUnlock={() => setIsReviewerUnlocked(true)}
+                onPinSet={(pinHash) => {
+                  handleSettingsChange({ ...settings, reviewerPinHash: pinHash });
+                  setIsReviewerUnlocked(true);
+                }}
+              />
+            )}
+          </div>
+        ) : view === 'review' ? (
+          // REVIEW QUEUE VIEW
+          <div className="animate-fade-in space-y-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+                <CalendarClock className="w-6 h-6 text-slate-400" />
+                {t('review.title')}
+              </h2>
+            </div>
+            {error && (
+              <div className="p-4 bg-red-50 text-red-700 rounded-xl flex items-start gap-3 text-sm animate-fade-in border border-red-100">
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
               </div>
             )}
+            <ReviewQueue cards={dueReviews} onStart={handleStartReview} loadingCardId={loadingReviewId} />
+          </div>
+        ) : view === 'progress' ? (
+          // PROGRESS VIEW
+          <div className="animate-fade-in space-y-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+                <BarChart3 className="w-6 h-6 text-slate-400" />
+                {t('progress.title')}
+              </h2>
+              {concepts.length > 0 && (
+                <button 
+                  onClick={handleResetProgress}
+                  className="flex items-center gap-2 text-red-500 hover:text-red-700 text-sm font-medium px-3 py-1.5 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <Trash2 size={16} />
+                  {t('progress.reset')}
+                </button>
+              )}
+            </div>
+            <ProgressDashboard concepts={concepts} onStartNew={() => setView('tutor')} />
           </div>
         ) : (
           // MAIN ANALYSIS VIEW
@@ -326,31 +989,38 @@ const App: React.FC = () => {
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200">
                 <h2 className="text-lg font-semibold mb-4 flex items-center gap-2 text-slate-700">
                   <FileImage className="w-5 h-5 text-blue-600" />
-                  Original Work
+                  {t('upload.originalWork')}
                 </h2>
                 
-                {image || previewUrl ? (
+                {pages.length > 0 ? (
+                  <div onDragOver={handleDragOver} onDrop={handleDrop}>
+                    <HomeworkPages
+                      pages={pages}
+                      onMove={handleMovePage}
+                      onRemove={handleRemovePage}
+                      onAdd={() => fileInputRef.current?.click()}
+                      onEdit={handleEditPage}
+                      highlightPage={diagnosis?.error_page}
+                      highlightBox={diagnosis?.error_box}
+                      highlightLabel={diagnosis?.error_step}
+                      readOnly={!!diagnosis}
+                    />
+                  </div>
+                ) : diagnosis ? (
                    <div className="relative rounded-xl overflow-hidden bg-slate-100 border border-slate-200 group">
-                      {previewUrl ? (
-                        <img src={previewUrl} alt="Homework Preview" className="w-full h-auto max-h-[300px] object-contain" />
-                      ) : (
-                        <div className="h-48 flex flex-col items-center justify-center text-slate-400 p-8 text-center">
-                          <FileImage className="w-10 h-10 mb-2 opacity-30" />
-                          <p className="text-sm font-medium">Image not preserved</p>
-                        </div>
-                      )}
+                      <div className="h-48 flex flex-col items-center justify-center text-slate-400 p-8 text-center">
+                        <FileImage className="w-10 h-10 mb-2 opacity-30" />
+                        <p className="text-sm font-medium">{t('upload.imageNotPreserved')}</p>
+                      </div>
                       
                       <button 
                         onClick={() => {
-                          setImage(null);
-                          setPreviewUrl(null);
-                          setDiagnosis(null);
-                          setChatHistory([]);
+                          resetSession();
                           fileInputRef.current?.click();
                         }}
                         className="absolute bottom-3 right-3 bg-white/90 hover:bg-white text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm backdrop-blur-sm transition-colors border border-slate-200 opacity-0 group-hover:opacity-100"
                       >
-                        Change
+                        {t('upload.change')}
                       </button>
                    </div>
                 ) : (
@@ -361,16 +1031,24 @@ const App: React.FC = () => {
                     className="border-2 border-dashed border-slate-300 hover:border-blue-400 hover:bg-slate-50 rounded-xl p-8 flex flex-col items-center justify-center text-center cursor-pointer transition-all h-48"
                   >
                       <Upload className="w-8 h-8 text-slate-400 mb-2" />
-                      <p className="text-sm font-medium text-slate-600">Upload Homework</p>
-                      <p className="text-xs text-slate-400 mt-1">Click or Drag & Drop</p>
+                      <p className="text-sm font-medium text-slate-600">{t('upload.title')}</p>
+                      <p className="text-xs text-slate-400 mt-1">{t('upload.subtitle')}</p>
                   </div>
                 )}
                 
+                {isPreparingImages && (
+                  <div className="mt-3 flex items-center gap-2 text-xs text-slate-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {t('upload.processing')}
+                  </div>
+                )}
+
                 <input 
                   type="file" 
                   ref={fileInputRef} 
                   onChange={handleImageUpload} 
-                  accept="image/jpeg,image/png,image/webp" 
+                  accept={ACCEPTED_UPLOADS} 
+                  multiple
                   className="hidden" 
                 />
               </div>
@@ -383,46 +1061,108 @@ const App: React.FC = () => {
                         <AlertTriangle className="w-5 h-5" />
                       </div>
                       <div>
-                        <h3 className="font-bold text-amber-900 mb-1 text-sm">Diagnosis</h3>
-                        <p className="text-amber-800 text-sm leading-relaxed">
-                          {diagnosis.conceptual_misunderstanding}
-                        </p>
-                        <div className="mt-3 text-xs bg-white/50 p-2 rounded text-amber-900/70 italic border border-amber-100/50">
-                            "{diagnosis.tutor_feedback}"
-                        </div>
+                        <h3 className="font-bold text-amber-900 mb-1 text-sm">{t('diagnosis.title')}</h3>
+                        <RichText
+                          content={diagnosis.conceptual_misunderstanding}
+                          className="text-amber-800 text-sm leading-relaxed"
+                        />
+                        {(diagnosis.problem || diagnosis.error_page || diagnosis.error_step) && (
+                          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-amber-900">
+                            {diagnosis.problem && (
+                              <span className="px-2 py-0.5 bg-amber-100 rounded font-bold">{diagnosis.problem}</span>
+                            )}
+                            {diagnosis.error_page && (
+                              <span className="px-2 py-0.5 bg-amber-100 rounded font-bold">{t('pages.page', { number: diagnosis.error_page })}</span>
+                            )}
+                            {diagnosis.error_step && (
+                              <span className="font-mono bg-white/60 px-2 py-0.5 rounded border border-amber-100">{diagnosis.error_step}</span>
+                            )}
+                          </div>
+                        )}
+                        <RichText
+                          content={diagnosis.tutor_feedback}
+                          className="mt-3 text-xs bg-white/50 p-2 rounded text-amber-900/70 italic border border-amber-100/50"
+                        />
+                        {activeItem?.supervisor_feedback?.diagnosis_flag && (
+                          <div className="mt-3 flex items-start gap-2 p-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-800">
+                            <Flag size={14} className="flex-shrink-0 mt-0.5" />
+                            <div>
+                              <span className="font-bold">{t('supervisor.flaggedLabel')}</span>{' '}
+                              <span className="whitespace-pre-wrap">{activeItem.supervisor_feedback.diagnosis_flag.note}</span>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
               )}
 
+              {/* All errors from the submission, most important first */}
+              {diagnosis && submissionErrors.length > 1 && (
+                  <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                    <h3 className="font-semibold text-slate-700 text-sm">{t('diagnosis.errorsFound', { count: submissionErrors.length })}</h3>
+                    <p className="text-xs text-slate-400 mb-3">{t('diagnosis.errorsHint')}</p>
+                    <div className="space-y-2">
+                      {submissionErrors.map((item) => (
+                        <button
+                          key={item.id}
+                          onClick={() => handleSelectError(item)}
+                          disabled={isLoading}
+                          className={`w-full text-left p-3 rounded-xl border transition-colors ${
+                            item.id === activeHistoryId
+                              ? 'border-blue-400 bg-blue-50'
+                              : 'border-slate-200 hover:border-blue-300 hover:bg-slate-50'
+                          }`}
+                        >
+                          <div className="flex items-center gap-2 text-xs font-bold mb-1">
+                            <span className="text-slate-400">#{item.error_rank}</span>
+                            {item.problem && <span className="text-slate-700">{item.problem}</span>}
+                            {item.severity && (
+                              <span className={`px-1.5 py-0.5 rounded uppercase ${
+                                item.severity === 'MAJOR' ? 'bg-red-100 text-red-700' :
+                                item.severity === 'MODERATE' ? 'bg-amber-100 text-amber-700' :
+                                'bg-slate-100 text-slate-600'
+                              }`}>
+                                {t(severityKey(item.severity))}
+                              </span>
+                            )}
+                            {item.mastery_achieved && <CheckCircle2 size={14} className="ml-auto text-green-500" />}
+                          </div>
+                          <p className="text-xs text-slate-500 line-clamp-2">{item.conceptual_misunderstanding}</p>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+              )}
+
               {/* Initial Input (Only visible before Stage 1 complete) */}
               {!diagnosis && (
                   <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200">
                     <h2 className="text-lg font-semibold mb-3 flex items-center gap-2 text-slate-700">
                       <Brain className="w-5 h-5 text-purple-600" />
-                      Your Thought Process
+                      {t('input.thoughtProcess')}
                     </h2>
                     
                     <div className="space-y-3">
                       <textarea
                         value={textInput}
                         onChange={(e) => setTextInput(e.target.value)}
-                        placeholder="I was confused about..."
+                        placeholder={t('input.thoughtPlaceholder')}
                         className="w-full p-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none h-24 text-sm"
                       />
-                      <AudioRecorder onAudioReady={setAudioBlob} />
+                      <AudioRecorder audio={audioBlob} onAudioReady={setAudioBlob} />
                       
                       <button
                         onClick={handleInitialAnalysis}
-                        disabled={isLoading || !image}
+                        disabled={isLoading || isPreparingImages || pages.length === 0}
                         className={`w-full py-3 rounded-xl font-semibold flex items-center justify-center gap-2 shadow-sm transition-all ${
-                          isLoading || !image
+                          isLoading || isPreparingImages || pages.length === 0
                             ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
                             : 'bg-blue-600 text-white hover:bg-blue-700 hover:shadow-blue-200 hover:-translate-y-0.5'
                         }`}
                       >
                         {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-                        {isLoading ? "Diagnosing..." : "Start Diagnosis"}
+                        {isLoading ? t('input.diagnosing') : t('input.startDiagnosis')}
                       </button>
                     </div>
                   </div>
@@ -443,8 +1183,8 @@ const App: React.FC = () => {
                  // Empty State
                  <div className="h-full bg-white rounded-2xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 p-8">
                     <BookOpen className="w-16 h-16 mb-4 opacity-20" />
-                    <p className="text-lg font-medium">Omni-Tutor Workspace</p>
-                    <p className="text-sm">Upload your homework to start the tutoring session.</p>
+                    <p className="text-lg font-medium">{t('workspace.title')}</p>
+                    <p className="text-sm">{t('workspace.hint')}</p>
                  </div>
               ) : (
                 // Active Session State
@@ -453,13 +1193,33 @@ const App: React.FC = () => {
                     {/* Practice Question Header */}
                     <div className="bg-indigo-50 rounded-2xl p-6 border border-indigo-100 shadow-sm shrink-0">
                         <div className="flex items-center gap-2 text-xs font-bold text-indigo-500 tracking-wider uppercase mb-2">
-                            <span className="bg-white/50 px-2 py-1 rounded">{diagnosis.new_practice_question.subject || "Topic"}</span>
+                            <span className="bg-white/50 px-2 py-1 rounded">{diagnosis.new_practice_question.subject || t('common.topic')}</span>
                             <span>•</span>
-                            <span>{diagnosis.new_practice_question.topic}</span>
+                            <span>{currentQuestion.topic}</span>
+                            <div className="ml-auto flex items-center gap-3 normal-case tracking-normal">
+                                {ladder.length > 1 && (
+                                    <div className="flex items-center gap-2">
+                                        <span>{t('ladder.progress', { number: currentQuestionIndex + 1, total: ladder.length })}</span>
+                                        <div className="flex gap-1">
+                                            {ladder.map((question, index) => (
+                                                <span
+                                                    key={index}
+                                                    title={t('ladder.questionTitle', { number: index + 1, level: question.difficulty ?? index + 1 })}
+                                                    className={`w-2.5 h-2.5 rounded-full ${
+                                                        practiceProgress?.passed[index] ? 'bg-green-500' : 'bg-indigo-200'
+                                                    } ${index === currentQuestionIndex ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+                                                ></span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {activeItem && <ExportMenu item={activeItem} pages={pages.map(page => (page.unavailable ? null : page.file))} />}
+                            </div>
                         </div>
-                        <h3 className="text-lg font-bold text-indigo-900 leading-snug">
-                            {diagnosis.new_practice_question.question_text}
-                        </h3>
+                        <RichText
+                            content={currentQuestion.question_text}
+                            className="text-lg font-bold text-indigo-900 leading-snug"
+                        />
                     </div>
 
                     {/* Chat Area */}
@@ -476,20 +1236,32 @@ const App: React.FC = () => {
                                     <div className={`max-w-[80%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm ${
                                         msg.role === 'user' 
                                             ? 'bg-blue-600 text-white rounded-tr-none' 
+                                            : msg.feedbackType === 'HINT'
+                                            ? 'bg-amber-50 border border-amber-200 text-amber-900 rounded-tl-none'
                                             : 'bg-white border border-slate-200 text-slate-700 rounded-tl-none'
                                     }`}>
-                                        {/* Tutor Feedback Status Badge */}
-                                        {msg.feedbackType && msg.feedbackType !== 'INFO' && (
-                                            <div className={`text-xs font-bold uppercase mb-2 inline-block px-2 py-0.5 rounded ${
-                                                msg.feedbackType === 'CORRECT' ? 'bg-green-100 text-green-700' : 
-                                                msg.feedbackType === 'CALCULATION_ERROR' ? 'bg-yellow-100 text-yellow-700' :
-                                                'bg-red-100 text-red-700'
-                                            }`}>
-                                                {msg.feedbackType === 'CORRECT' ? 'Correct' : 
-                                                 msg.feedbackType === 'CALCULATION_ERROR' ? 'Calculation Check' : 'Concept Check'}
+                                        <EvaluationBadge message={msg} annotation={getAnnotation(activeItem?.supervisor_feedback, idx)} />
+                                        <RichText content={msg.content} />
+                                        {msg.attachments && (
+                                            <div className="mt-2 flex flex-wrap gap-2">
+                                                {msg.attachments.map((attachment, attachmentIndex) => (
+                                                    <AttachmentThumbnail
+                                                        key={attachment.url}
+                                                        url={attachment.url}
+                                                        mimeType={attachment.mimeType}
+                                                        name={attachment.name}
+                                                        alt={t('chat.attachmentAlt', { number: attachmentIndex + 1 })}
+                                                        className="h-24"
+                                                    />
+                                                ))}
                                             </div>
                                         )}
-                                        <p>{msg.content}</p>
+                                        {msg.audioUrl && (
+                                            <audio controls src={msg.audioUrl} className="mt-2 w-full max-w-[260px] h-8" />
+                                        )}
+                                        {getAnnotation(activeItem?.supervisor_feedback, idx)?.note && (
+                                            <SupervisorNote note={getAnnotation(activeItem?.supervisor_feedback, idx).note} className="mt-3" />
+                                        )}
                                     </div>
                                     {msg.role === 'user' && (
                                         <div className="w-8 h-8 rounded-full bg-slate-200 flex items-center justify-center text-slate-500 shrink-0">
@@ -498,7 +1270,21 @@ const App: React.FC = () => {
                                     )}
                                 </div>
                             ))}
-                            {isLoading && (
+                            {isLoading && streamingReply && (
+                                <div className="flex gap-3 justify-start">
+                                    <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 shrink-0">
+                                        <Bot size={16} />
+                                    </div>
+                                    <div className="max-w-[80%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm bg-white border border-slate-200 text-slate-700 rounded-tl-none">
+                                        {/* Plain text until complete; half-streamed markup would not render */}
+                                        <p className="whitespace-pre-wrap">
+                                            {streamingReply}
+                                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse"></span>
+                                        </p>
+                                    </div>
+                                </div>
+                            )}
+                            {isLoading && !streamingReply && (
                                 <div className="flex gap-3">
                                      <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 shrink-0">
                                             <Bot size={16} />
@@ -520,23 +1306,40 @@ const App: React.FC = () => {
                              {isMasteryAchieved ? (
                                  <div className="text-center py-4 bg-green-50 rounded-xl border border-green-100">
                                      <CheckCircle2 className="w-8 h-8 text-green-500 mx-auto mb-2" />
-                                     <p className="font-bold text-green-800">Concept Mastered!</p>
-                                     <p className="text-sm text-green-600 mb-3">You've successfully completed this practice.</p>
-                                     <button 
-                                        onClick={() => {
-                                            setImage(null);
-                                            setPreviewUrl(null);
-                                            setDiagnosis(null);
-                                            setChatHistory([]);
-                                            fileInputRef.current?.click();
-                                        }}
-                                        className="text-sm bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
-                                     >
-                                         Upload New Homework
-                                     </button>
+                                     <p className="font-bold text-green-800">{t('chat.masteredTitle')}</p>
+                                     <p className="text-sm text-green-600 mb-3">{t('chat.masteredText')}</p>
+                                     <div className="flex justify-center gap-2">
+                                         {nextOpenError && (
+                                             <button
+                                                onClick={() => handleSelectError(nextOpenError)}
+                                                className="text-sm bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                                             >
+                                                 {t('chat.nextError')}
+                                             </button>
+                                         )}
+                                         <button 
+                                            onClick={() => {
+                                                clearPages();
+                                                resetSession();
+                                                fileInputRef.current?.click();
+                                            }}
+                                            className="text-sm bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+                                         >
+                                             {t('chat.uploadNew')}
+                                         </button>
+                                     </div>
                                  </div>
                              ) : (
                                 <div className="flex flex-col gap-3">
+                                    {composerPanel === 'equation' && (
+                                        <EquationEditor onInsert={handleInsertEquation} onClose={() => setComposerPanel(null)} />
+                                    )}
+                                    {composerPanel === 'sketch' && (
+                                        <DrawingCanvas onAttach={handleAttachSketch} onClose={() => setComposerPanel(null)} />
+                                    )}
+                                    {hasTranscript && (
+                                        <p className="text-xs text-slate-500">{t('chat.transcriptLabel')}</p>
+                                    )}
                                     <textarea
                                         value={replyText}
                                         onChange={(e) => setReplyText(e.target.value)}
@@ -546,24 +1349,92 @@ const App: React.FC = () => {
                                                 handlePracticeReply();
                                             }
                                         }}
-                                        placeholder="Type your next step here..."
+                                        placeholder={isTranscribing ? t('chat.transcribing') : t('chat.replyPlaceholder')}
+                                        disabled={isTranscribing}
                                         className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none h-20 text-sm"
                                     />
+                                    {replyAttachments.length > 0 && (
+                                        <div className="flex flex-wrap gap-2">
+                                            {replyAttachments.map((attachment, attachmentIndex) => (
+                                                <div key={attachment.id} className="relative group">
+                                                    <AttachmentThumbnail
+                                                        url={attachment.previewUrl}
+                                                        mimeType={attachment.file.type}
+                                                        name={attachment.name}
+                                                        alt={t('chat.attachmentAlt', { number: attachmentIndex + 1 })}
+                                                    />
+                                                    <button
+                                                        onClick={() => handleRemoveAttachment(attachment.id)}
+                                                        className="absolute -top-2 -right-2 p-0.5 bg-white rounded-full border border-slate-200 text-red-500 shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"
+                                                        title={t('chat.removeAttachment')}
+                                                    >
+                                                        <X size={12} />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                     <div className="flex items-center justify-between gap-3">
                                         <div className="flex-1 max-w-[200px]">
-                                             <AudioRecorder onAudioReady={setReplyAudio} />
+                                             <AudioRecorder audio={replyAudio} onAudioReady={handleReplyAudio} />
                                         </div>
+                                        <button
+                                            onClick={() => setComposerPanel(composerPanel === 'equation' ? null : 'equation')}
+                                            className={`p-2.5 rounded-xl border transition-colors ${
+                                                composerPanel === 'equation' ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-500'
+                                            }`}
+                                            title={t('composer.equation')}
+                                        >
+                                            <Sigma size={18} />
+                                        </button>
+                                        <button
+                                            onClick={() => setComposerPanel(composerPanel === 'sketch' ? null : 'sketch')}
+                                            className={`p-2.5 rounded-xl border transition-colors ${
+                                                composerPanel === 'sketch' ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-500'
+                                            }`}
+                                            title={t('composer.sketch')}
+                                        >
+                                            <PenLine size={18} />
+                                        </button>
+                                        <button
+                                            onClick={() => replyFileInputRef.current?.click()}
+                                            className="p-2.5 rounded-xl border bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-500 transition-colors"
+                                            title={t('composer.photo')}
+                                        >
+                                            <ImagePlus size={18} />
+                                        </button>
+                                        <input
+                                            type="file"
+                                            ref={replyFileInputRef}
+                                            onChange={handleAttachPhotos}
+                                            accept={ACCEPTED_UPLOADS}
+                                            multiple
+                                            className="hidden"
+                                        />
+                                        <button
+                                            onClick={handleRequestHint}
+                                            disabled={isLoading}
+                                            title={t('chat.hintTooltip', { level: t(hintLevelKey(nextHintLevel(getQuestionTranscript(chatHistory, currentQuestionIndex)))) })}
+                                            className={`ml-auto px-4 py-2.5 rounded-xl font-semibold flex items-center gap-2 border transition-all ${
+                                                isLoading
+                                                ? 'bg-slate-100 text-slate-400 border-slate-100 cursor-not-allowed'
+                                                : 'bg-white text-amber-600 border-amber-200 hover:bg-amber-50'
+                                            }`}
+                                        >
+                                            <Lightbulb size={18} />
+                                            <span>{t('chat.stuck')}</span>
+                                        </button>
                                         <button
                                             onClick={handlePracticeReply}
-                                            disabled={isLoading || (!replyText && !replyAudio)}
+                                            disabled={isLoading || isTranscribing || !canSendReply}
                                             className={`px-6 py-2.5 rounded-xl font-semibold flex items-center gap-2 shadow-sm transition-all ${
-                                                isLoading || (!replyText && !replyAudio)
+                                                isLoading || isTranscribing || !canSendReply
                                                 ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
                                                 : 'bg-blue-600 text-white hover:bg-blue-700 hover:-translate-y-0.5'
                                             }`}
                                         >
                                             <Send size={18} />
-                                            <span>Reply</span>
+                                            <span>{t('chat.reply')}</span>
                                         </button>
                                     </div>
                                 </div>
@@ -577,7 +1448,19 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {editingPage && (
+        <ImageEditor
+          key={editingPage.id}
+          original={editingPage.original}
+          initialEdits={editingPage.edits}
+          pageNumber={editingPageIndex + 1}
+          onApply={(edits) => handleApplyEdits(editingPage.id, edits)}
+          onCancel={() => setEditQueue(queue => queue.slice(1))}
+        />
+      )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
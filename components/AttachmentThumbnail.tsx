@@ -0,0 +1,29 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+
+interface AttachmentThumbnailProps {
+  url: string;
+  mimeType: string;
+  name?: string;
+  alt: string;
+  className?: string;
+}
+
+// Image preview, or a file chip for PDFs
+const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ url, mimeType, name, alt, className = 'h-16' }) =>
+  mimeType === 'application/pdf' ? (
+    <a
+      href={url}
+      target="_blank"
+      rel="noreferrer"
+      className={`${className} min-w-[64px] max-w-[140px] px-2 flex flex-col items-center justify-center gap-1 rounded-lg border border-slate-200 bg-white text-slate-500`}
+      title={name}
+    >
+      <FileText size={20} />
+      <span className="text-[10px] truncate max-w-full">{name ?? 'PDF'}</span>
+    </a>
+  ) : (
+    <img src={url} alt={alt} className={`${className} rounded-lg border border-slate-200 bg-white object-contain`} />
+  );
+
+export default AttachmentThumbnail;
@@ -1,14 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Trash2 } from 'lucide-react';
+import { Mic, Square, Trash2, Loader2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { AUDIO_LIMITS } from '../services/tutorApi';
+import { pickRecorderMimeType, prepareRecording, AudioLimitError } from '../services/audioService';
 
 interface AudioRecorderProps {
+  // Current recording, owned by the parent so it can clear it after submitting
+  audio: Blob | null;
   onAudioReady: (blob: Blob | null) => void;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady }) => {
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ audio, onAudioReady }) => {
+  const { t } = useI18n();
   const [isRecording, setIsRecording] = useState(false);
-  const [hasRecording, setHasRecording] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
   const [duration, setDuration] = useState(0);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
@@ -19,10 +32,35 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady }) => {
     };
   }, []);
 
+  // Playback source follows the parent's recording
+  useEffect(() => {
+    if (!audio) {
+      setPlaybackUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(audio);
+    setPlaybackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio]);
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && isRecording) {
+      mediaRecorderRef.current.stop();
+      setIsRecording(false);
+      if (timerRef.current) clearInterval(timerRef.current);
+    }
+  };
+
+  // Hard cap on recording length
+  useEffect(() => {
+    if (isRecording && duration >= AUDIO_LIMITS.maxDurationSeconds) stopRecording();
+  }, [isRecording, duration]);
+
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream);
+      const mimeType = pickRecorderMimeType();
+      const mediaRecorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
@@ -32,11 +70,19 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady }) => {
         }
       };
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' }); // Use webm for browser compatibility
-        onAudioReady(blob);
-        setHasRecording(true);
+      mediaRecorder.onstop = async () => {
         stream.getTracks().forEach(track => track.stop());
+        const recording = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+        setIsProcessing(true);
+        try {
+          onAudioReady(await prepareRecording(recording));
+        } catch (err) {
+          console.error("Error preparing recording:", err);
+          alert(err instanceof AudioLimitError ? t('audio.tooLarge') : t('errors.unexpected'));
+          setDuration(0);
+        } finally {
+          setIsProcessing(false);
+        }
       };
 
       mediaRecorder.start();
@@ -49,43 +95,42 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady }) => {
 
     } catch (err) {
       console.error("Error accessing microphone:", err);
-      alert("Could not access microphone. Please check permissions.");
-    }
-  };
-
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (timerRef.current) clearInterval(timerRef.current);
+      alert(t('audio.micError'));
     }
   };
 
   const deleteRecording = () => {
     onAudioReady(null);
-    setHasRecording(false);
     setDuration(0);
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
-  };
+  if (isProcessing) {
+    return (
+      <div className="flex items-center justify-center gap-2 w-full p-3 rounded-lg border border-gray-200 text-sm text-gray-500">
+        <Loader2 size={16} className="animate-spin" />
+        {t('audio.processing')}
+      </div>
+    );
+  }
 
-  if (hasRecording) {
+  if (audio) {
     return (
-      <div className="flex items-center gap-3 p-3 bg-green-50 rounded-lg border border-green-200">
-        <div className="flex-1 text-sm text-green-700 font-medium">
-          Audio Recorded ({formatTime(duration)})
+      <div className="p-3 bg-green-50 rounded-lg border border-green-200 space-y-2">
+        <div className="flex items-center gap-3">
+          <div className="flex-1 text-sm text-green-700 font-medium">
+            {t('audio.recorded', { duration: formatTime(duration) })}
+          </div>
+          <button
+            onClick={deleteRecording}
+            className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
+            title={t('audio.delete')}
+          >
+            <Trash2 size={18} />
+          </button>
         </div>
-        <button
-          onClick={deleteRecording}
-          className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
-          title="Delete Recording"
-        >
-          <Trash2 size={18} />
-        </button>
+        {playbackUrl && (
+          <audio controls src={playbackUrl} className="w-full h-8" aria-label={t('audio.playback')} />
+        )}
       </div>
     );
   }
@@ -102,12 +147,12 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady }) => {
       {isRecording ? (
         <>
           <Square size={18} fill="currentColor" />
-          <span className="font-medium">Stop Recording ({formatTime(duration)})</span>
+          <span className="font-medium">{t('audio.stop', { duration: formatTime(duration), max: formatTime(AUDIO_LIMITS.maxDurationSeconds) })}</span>
         </>
       ) : (
         <>
           <Mic size={18} />
-          <span className="font-medium">Explain via Voice</span>
+          <span className="font-medium">{t('audio.start')}</span>
         </>
       )}
     </button>
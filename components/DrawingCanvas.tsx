@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pen, Eraser, Undo2, Trash2, Paperclip, X } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface DrawingCanvasProps {
+  // Receives a PNG snapshot of the drawing
+  onAttach: (snapshot: Blob) => void;
+  onClose: () => void;
+}
+
+type Point = { x: number; y: number };
+type Stroke = { points: Point[]; erase: boolean };
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 400;
+const PEN_WIDTH = 3;
+const ERASER_WIDTH = 24;
+
+const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onAttach, onClose }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const activeStrokeRef = useRef<Stroke | null>(null);
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [isErasing, setIsErasing] = useState(false);
+
+  const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+    ctx.strokeStyle = stroke.erase ? '#ffffff' : '#1e293b';
+    ctx.lineWidth = stroke.erase ? ERASER_WIDTH : PEN_WIDTH;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    stroke.points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    // A single tap still leaves a dot
+    if (stroke.points.length === 1) ctx.lineTo(stroke.points[0].x + 0.1, stroke.points[0].y);
+    ctx.stroke();
+  };
+
+  // Full repaint on a white background, so the snapshot is never transparent
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    strokes.forEach(stroke => drawStroke(ctx, stroke));
+  }, [strokes]);
+
+  // Pointer position in canvas pixels; the element is scaled by CSS
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activeStrokeRef.current = { points: [toCanvasPoint(e)], erase: isErasing };
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawStroke(ctx, activeStrokeRef.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    stroke.points.push(toCanvasPoint(e));
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawStroke(ctx, { ...stroke, points: stroke.points.slice(-2) });
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStrokeRef.current;
+    activeStrokeRef.current = null;
+    if (stroke) setStrokes(prev => [...prev, stroke]);
+  };
+
+  const handleAttach = () => {
+    canvasRef.current?.toBlob(blob => {
+      if (blob) onAttach(blob);
+    }, 'image/png');
+  };
+
+  const toolClass = (active: boolean) =>
+    `p-2 rounded-lg transition-colors ${active ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'}`;
+
+  return (
+    <div className="p-3 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+      <div className="flex items-center gap-1">
+        <button onClick={() => setIsErasing(false)} className={toolClass(!isErasing)} title={t('sketch.pen')}>
+          <Pen size={16} />
+        </button>
+        <button onClick={() => setIsErasing(true)} className={toolClass(isErasing)} title={t('sketch.eraser')}>
+          <Eraser size={16} />
+        </button>
+        <button
+          onClick={() => setStrokes(prev => prev.slice(0, -1))}
+          disabled={strokes.length === 0}
+          className={`${toolClass(false)} disabled:opacity-40`}
+          title={t('sketch.undo')}
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={() => setStrokes([])}
+          disabled={strokes.length === 0}
+          className={`${toolClass(false)} disabled:opacity-40`}
+          title={t('sketch.clear')}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="block mx-auto w-full max-w-[480px] h-auto bg-white rounded-lg border border-slate-200 cursor-crosshair touch-none"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors"
+        >
+          <X size={16} />
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleAttach}
+          disabled={strokes.length === 0}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+            strokes.length > 0 ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+          }`}
+        >
+          <Paperclip size={16} />
+          {t('sketch.attach')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DrawingCanvas;
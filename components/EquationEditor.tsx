@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import katex from 'katex';
+import type { MathfieldElement } from 'mathlive';
+import { Braces, Check, Loader2, X } from 'lucide-react';
+import { useI18n } from '../i18n';
+import RichText from './RichText';
+
+interface EquationEditorProps {
+  // Receives the finished LaTeX, without delimiters
+  onInsert: (latex: string) => void;
+  onClose: () => void;
+}
+
+// In MathLive's insert() notation: `#?` is an empty slot, `#0` the current selection
+// and `#@` the atom before the cursor
+const TEMPLATES: { label: string; latex: string }[] = [
+  { label: '\\frac{a}{b}', latex: '\\frac{#0}{#?}' },
+  { label: 'x^{n}', latex: '#@^{#?}' },
+  { label: 'x_{i}', latex: '#@_{#?}' },
+  { label: '\\sqrt{x}', latex: '\\sqrt{#0}' },
+  { label: '\\vec{v}', latex: '\\vec{#0}' },
+  { label: '\\Delta', latex: '\\Delta' },
+  { label: '\\times', latex: '\\times' },
+  { label: '\\div', latex: '\\div' },
+  { label: '\\pm', latex: '\\pm' },
+  { label: '\\neq', latex: '\\neq' },
+  { label: '\\approx', latex: '\\approx' },
+  { label: '\\le', latex: '\\le' },
+  { label: '\\ge', latex: '\\ge' },
+  { label: '\\pi', latex: '\\pi' },
+  { label: '\\theta', latex: '\\theta' },
+  { label: '^{\\circ}', latex: '^{\\circ}' },
+  { label: '\\sum', latex: '\\sum_{#?}^{#?}' },
+  { label: '\\int', latex: '\\int_{#?}^{#?}' },
+  { label: '\\rightarrow', latex: '\\rightarrow' },
+  { label: '\\ce{H2O}', latex: '\\ce{#?}' },
+];
+
+const renderLabel = (latex: string) => ({ __html: katex.renderToString(latex, { throwOnError: false }) });
+
+// Loaded on first use; the KaTeX stylesheet in index.html already provides the fonts
+const loadMathfield = async () => {
+  const { MathfieldElement } = await import('mathlive');
+  MathfieldElement.fontsDirectory = null;
+  MathfieldElement.soundsDirectory = null;
+  return MathfieldElement;
+};
+
+// Structured math input: fractions, exponents and roots are boxes the cursor moves
+// between (Tab or the arrow keys). Raw LaTeX stays available as an advanced option,
+// and is all there is if the math field cannot load.
+const EquationEditor: React.FC<EquationEditorProps> = ({ onInsert, onClose }) => {
+  const { t } = useI18n();
+  const [latex, setLatex] = useState('');
+  const [status, setStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const [showLatex, setShowLatex] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mathfieldRef = useRef<MathfieldElement | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleInsert = () => {
+    // Kept in sync with the math field by its input listener
+    const value = latex.trim();
+    if (!value) return;
+    onInsert(value);
+    setLatex('');
+    mathfieldRef.current?.setValue('', { silenceNotifications: true });
+  };
+
+  // The math field's listeners are attached once, so they call the latest handler through this
+  const insertRef = useRef(handleInsert);
+  insertRef.current = handleInsert;
+
+  useEffect(() => {
+    let mathfield: MathfieldElement | null = null;
+    let cancelled = false;
+
+    loadMathfield()
+      .then(MathfieldElement => {
+        if (cancelled || !containerRef.current) return;
+        mathfield = new MathfieldElement();
+        mathfield.smartFence = true;
+        mathfield.className = 'block w-full p-2 text-lg rounded-lg border border-slate-200 bg-white';
+        mathfield.addEventListener('input', () => {
+          setLatex(mathfield!.getValue('latex-without-placeholders'));
+        });
+        mathfield.addEventListener('beforeinput', (e) => {
+          if ((e as InputEvent).inputType !== 'insertLineBreak') return;
+          e.preventDefault();
+          insertRef.current();
+        });
+        containerRef.current.appendChild(mathfield);
+        mathfieldRef.current = mathfield;
+        setStatus('ready');
+        mathfield.focus();
+      })
+      .catch(err => {
+        console.error("Failed to load the math field", err);
+        if (!cancelled) setStatus('failed');
+      });
+
+    return () => {
+      cancelled = true;
+      mathfield?.remove();
+      mathfieldRef.current = null;
+    };
+  }, []);
+
+  const insertTemplate = (template: string) => {
+    const mathfield = mathfieldRef.current;
+    if (mathfield) {
+      mathfield.insert(template, { format: 'latex', selectionMode: 'placeholder' });
+      setLatex(mathfield.getValue('latex-without-placeholders'));
+      mathfield.focus();
+      return;
+    }
+
+    // Raw LaTeX fallback: the caret lands in the template's first slot
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? latex.length;
+    const end = input?.selectionEnd ?? latex.length;
+    const withoutBase = template.replace('#@', '');
+    const slot = withoutBase.search(/#[0?]/);
+    const snippet = withoutBase.replace(/#[0?]/g, '');
+    const caretOffset = slot === -1 ? snippet.length : slot;
+
+    setLatex(latex.slice(0, start) + snippet + latex.slice(end));
+    // Restore focus once React has applied the new value
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + caretOffset, start + caretOffset);
+    });
+  };
+
+  const handleLatexChange = (value: string) => {
+    setLatex(value);
+    mathfieldRef.current?.setValue(value, { silenceNotifications: true });
+  };
+
+  const isRawOnly = status === 'failed';
+
+  return (
+    <div className="p-3 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {TEMPLATES.map(template => (
+          <button
+            key={template.label}
+            onClick={() => insertTemplate(template.latex)}
+            disabled={status === 'loading'}
+            className="min-w-[36px] h-9 px-2 bg-white border border-slate-200 rounded-md text-slate-700 hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+            dangerouslySetInnerHTML={renderLabel(template.label)}
+          />
+        ))}
+      </div>
+
+      {status === 'loading' && (
+        <div className="flex items-center justify-center h-12 text-slate-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      )}
+      {/* The math field is mounted here once loaded */}
+      <div ref={containerRef} />
+      {status === 'ready' && <p className="text-xs text-slate-400">{t('equation.hint')}</p>}
+
+      {(showLatex || isRawOnly) && (
+        <input
+          ref={inputRef}
+          autoFocus={isRawOnly}
+          value={latex}
+          onChange={(e) => handleLatexChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleInsert();
+            }
+          }}
+          placeholder={t('equation.placeholder')}
+          className="w-full p-2 font-mono text-sm rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+        />
+      )}
+
+      {isRawOnly && (
+        <div className="min-h-[48px] flex items-center justify-center p-2 bg-white rounded-lg border border-dashed border-slate-200 text-slate-800 overflow-x-auto">
+          {latex.trim() ? (
+            <RichText content={`$$${latex}$$`} />
+          ) : (
+            <span className="text-xs text-slate-400">{t('equation.preview')}</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        {status === 'ready' ? (
+          <button
+            onClick={() => setShowLatex(!showLatex)}
+            className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            <Braces size={14} />
+            {showLatex ? t('equation.hideLatex') : t('equation.editLatex')}
+          </button>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <X size={16} />
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleInsert}
+            disabled={!latex.trim()}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+              latex.trim() ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            }`}
+          >
+            <Check size={16} />
+            {t('equation.insert')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquationEditor;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Lightbulb, UserCheck } from 'lucide-react';
+import { ChatMessage, FeedbackResult, MessageAnnotation } from '../types';
+import { useI18n, hintLevelKey, evaluationKey } from '../i18n';
+import { getEffectiveEvaluation } from '../services/supervisorService';
+
+interface EvaluationBadgeProps {
+  message: ChatMessage;
+  // Teacher or parent annotation, whose override replaces the tutor's verdict
+  annotation?: MessageAnnotation;
+}
+
+const EVALUATION_STYLES: Record<FeedbackResult['evaluation_result'], string> = {
+  CORRECT: 'bg-green-100 text-green-700',
+  CALCULATION_ERROR: 'bg-yellow-100 text-yellow-700',
+  CONCEPT_ERROR: 'bg-red-100 text-red-700',
+};
+
+// Hint level or evaluation shown above a tutor message
+const EvaluationBadge: React.FC<EvaluationBadgeProps> = ({ message, annotation }) => {
+  const { t } = useI18n();
+
+  if (message.feedbackType === 'HINT') {
+    return (
+      <div className="text-xs font-bold uppercase mb-2 inline-flex items-center gap-1 px-2 py-0.5 rounded bg-amber-100 text-amber-700">
+        <Lightbulb size={12} />
+        {t('chat.hintBadge', { level: t(hintLevelKey(message.hintLevel ?? 1)) })}
+      </div>
+    );
+  }
+
+  const evaluation = getEffectiveEvaluation(message, annotation);
+  if (!evaluation) return null;
+
+  if (evaluation === message.feedbackType) {
+    return (
+      <div className={`text-xs font-bold uppercase mb-2 inline-block px-2 py-0.5 rounded ${EVALUATION_STYLES[evaluation]}`}>
+        {t(evaluationKey(evaluation))}
+      </div>
+    );
+  }
+
+  // Overridden: the tutor's verdict stays visible, struck through
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-2 text-xs font-bold uppercase">
+      <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-400 line-through">
+        {t(evaluationKey(message.feedbackType as FeedbackResult['evaluation_result']))}
+      </span>
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded ${EVALUATION_STYLES[evaluation]}`}
+        title={t('supervisor.overriddenBy')}
+      >
+        <UserCheck size={12} />
+        {t(evaluationKey(evaluation))}
+      </span>
+    </div>
+  );
+};
+
+export default EvaluationBadge;
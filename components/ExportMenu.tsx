@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Download, FileText, Printer } from 'lucide-react';
+import { HistoryItem } from '../types';
+import { useI18n } from '../i18n';
+import RichText from './RichText';
+import { buildReportMarkdown, downloadMarkdown, encodeReportPages, loadReportPages, reportFileName } from '../services/reportService';
+
+interface ExportMenuProps {
+  item: HistoryItem;
+  // Uploaded pages of the live session; otherwise the pages saved with the item are used
+  pages?: (File | null)[]; // null for pages that are no longer stored
+  className?: string;
+}
+
+// The print window has no Tailwind, so the report carries its own styles
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #1e293b; line-height: 1.5; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; padding-bottom: 0.25rem; border-bottom: 1px solid #cbd5e1; }
+  h3 { font-size: 1rem; margin-top: 1.25rem; }
+  p, ul, ol { margin: 0 0 0.75rem; }
+  ul, ol { padding-left: 1.25rem; }
+  img { display: block; max-width: 100%; max-height: 9in; margin: 0.5rem 0 1rem; border: 1px solid #e2e8f0; }
+  blockquote { margin: 0 0 0.75rem; padding: 0.5rem 0.75rem; border-left: 3px solid #f59e0b; background: #fffbeb; }
+  hr { border: 0; border-top: 1px dashed #e2e8f0; margin: 1rem 0; }
+  code { font-family: ui-monospace, monospace; background: #f1f5f9; padding: 0 0.25rem; border-radius: 3px; }
+  h2, h3, img { break-inside: avoid; break-after: avoid; }
+`;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ item, pages, className }) => {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+
+  const buildMarkdown = async () =>
+    buildReportMarkdown(item, i18n, pages?.length ? await encodeReportPages(pages) : await loadReportPages(item));
+
+  const handleMarkdown = async () => {
+    setIsOpen(false);
+    try {
+      downloadMarkdown(await buildMarkdown(), reportFileName(item));
+    } catch (err) {
+      console.error("Failed to export report", err);
+      alert(t('errors.unexpected'));
+    }
+  };
+
+  // Opens the report in a print-ready window; the browser's print dialog saves it as PDF
+  const handlePrint = async () => {
+    setIsOpen(false);
+    // Opened before any await, or pop-up blockers treat it as unsolicited
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert(t('report.popupBlocked'));
+      return;
+    }
+    try {
+      const body = renderToStaticMarkup(<RichText content={await buildMarkdown()} allowImageData />);
+      const katexStylesheet = document.querySelector<HTMLLinkElement>('link[href*="katex"]')?.href;
+      printWindow.document.write(`<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${t('report.title')}</title>
+${katexStylesheet ? `<link rel="stylesheet" href="${katexStylesheet}">` : ''}
+<style>${PRINT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`);
+      printWindow.document.close();
+      printWindow.addEventListener('load', () => printWindow.print());
+    } catch (err) {
+      console.error("Failed to print report", err);
+      printWindow.close();
+      alert(t('errors.unexpected'));
+    }
+  };
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${
+          isOpen ? 'bg-blue-100 text-blue-700' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+        }`}
+        title={t('report.export')}
+      >
+        <Download size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 bg-white rounded-xl border border-slate-200 shadow-lg py-1 z-20">
+          <button
+            onClick={handleMarkdown}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 text-left"
+          >
+            <FileText size={16} className="text-slate-400" />
+            {t('report.markdown')}
+          </button>
+          <button
+            onClick={handlePrint}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 text-left"
+          >
+            <Printer size={16} className="text-slate-400" />
+            {t('report.pdf')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
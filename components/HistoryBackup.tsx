@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { BackupFormatError, createBackup, downloadBackup, importBackup, parseBackup } from '../services/backupService';
+
+interface HistoryBackupProps {
+  canExport: boolean;
+  // Called after sessions from a backup were merged into the history
+  onImported: () => void;
+}
+
+const HistoryBackup: React.FC<HistoryBackupProps> = ({ canExport, onImported }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      downloadBackup(await createBackup());
+    } catch (err) {
+      console.error("Failed to export backup", err);
+      alert(t('errors.unexpected'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const summary = importBackup(parseBackup(await file.text()));
+      onImported();
+      alert([
+        t('backup.imported', { added: summary.added, updated: summary.updated, unchanged: summary.unchanged }),
+        summary.skipped > 0 ? t('backup.skipped', { count: summary.skipped }) : '',
+      ].filter(Boolean).join('\n'));
+    } catch (err) {
+      console.error("Failed to import backup", err);
+      if (err instanceof BackupFormatError) {
+        alert(err.version ? t('backup.newerVersion') : t('backup.invalidFile'));
+      } else {
+        alert(t('errors.unexpected'));
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {isBusy && <Loader2 size={16} className="animate-spin text-slate-400" />}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isBusy}
+        className="flex items-center gap-2 text-slate-600 hover:text-slate-800 text-sm font-medium px-3 py-1.5 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+      >
+        <Upload size={16} />
+        {t('backup.import')}
+      </button>
+      {canExport && (
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex items-center gap-2 text-slate-600 hover:text-slate-800 text-sm font-medium px-3 py-1.5 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Download size={16} />
+          {t('backup.export')}
+        </button>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleImport}
+        accept=".json,application/json"
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default HistoryBackup;
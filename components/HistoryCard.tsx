@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Calendar, CheckCircle2, Flag, Lightbulb, MessageSquare, MessageSquareText, Plus, RotateCcw, Star, Trash2, X } from 'lucide-react';
+import { HistoryItem } from '../types';
+import { useI18n } from '../i18n';
+import { countHintsUsed } from '../services/tutorApi';
+import { addTag, getItemSubject } from '../services/historyFilterService';
+import { hasSupervisorFeedback } from '../services/supervisorService';
+import ExportMenu from './ExportMenu';
+
+interface HistoryCardProps {
+  item: HistoryItem;
+  // Errors diagnosed in the item's submission
+  errorCount: number;
+  onOpen: (item: HistoryItem) => void;
+  onToggleStar: (item: HistoryItem) => void;
+  onTagsChange: (item: HistoryItem, tags: string[]) => void;
+  onDelete: (item: HistoryItem) => void;
+}
+
+const HistoryCard: React.FC<HistoryCardProps> = ({ item, errorCount, onOpen, onToggleStar, onTagsChange, onDelete }) => {
+  const { t, formatDate } = useI18n();
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+  const tags = item.tags ?? [];
+  const hintsUsed = item.chat_history ? countHintsUsed(item.chat_history) : 0;
+
+  const commitTag = () => {
+    if (tagDraft) onTagsChange(item, addTag(tags, tagDraft));
+    setTagDraft(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 hover:border-blue-400 hover:shadow-md transition-all flex flex-col group">
+      <button onClick={() => onOpen(item)} className="w-full p-5 pb-3 text-left flex-1">
+        <div className="flex justify-between items-start mb-3">
+          <div className="flex items-center gap-2 text-xs text-slate-400 font-medium bg-slate-50 px-2 py-1 rounded-md">
+            <Calendar size={12} />
+            {formatDate(item.timestamp)}
+          </div>
+          <div className="flex items-center gap-2">
+            {errorCount > 1 && (
+              <div className="px-2 py-1 bg-slate-50 text-slate-500 text-xs font-medium rounded-md">
+                {t('history.errorRank', { rank: item.error_rank, total: errorCount })}
+              </div>
+            )}
+            {item.review_of && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 text-xs font-bold uppercase rounded-md">
+                <RotateCcw size={12} />
+                {t('history.reviewBadge')}
+              </div>
+            )}
+            {item.supervisor_feedback?.diagnosis_flag ? (
+              <div className="flex items-center gap-1 px-2 py-1 bg-red-50 text-red-700 text-xs font-bold uppercase rounded-md">
+                <Flag size={12} />
+                {t('history.flaggedBadge')}
+              </div>
+            ) : hasSupervisorFeedback(item.supervisor_feedback) && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-violet-50 text-violet-700 text-xs font-bold uppercase rounded-md">
+                <MessageSquareText size={12} />
+                {t('history.supervisorBadge')}
+              </div>
+            )}
+            {item.mastery_achieved && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 text-xs font-bold uppercase rounded-md">
+                <CheckCircle2 size={12} />
+                {t('history.masteredBadge')}
+              </div>
+            )}
+            <div className="px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase rounded-md">
+              {getItemSubject(item) || t('common.topic')}
+            </div>
+          </div>
+        </div>
+
+        <h3 className="font-bold text-slate-800 mb-1 group-hover:text-blue-600 transition-colors">
+          {item.new_practice_question.topic}
+        </h3>
+
+        <div className="flex items-start gap-2 text-sm text-slate-600 line-clamp-2">
+          <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+          <span className="text-slate-500">{item.conceptual_misunderstanding}</span>
+        </div>
+
+        {item.chat_history && item.chat_history.length > 1 && (
+          <div className="flex items-center gap-1.5 mt-3 text-xs text-slate-400">
+            <MessageSquare size={12} />
+            {t('history.messageCount', { count: item.chat_history.length })}
+            {hintsUsed > 0 && (
+              <>
+                <span>·</span>
+                <Lightbulb size={12} />
+                {t('history.hintCount', { count: hintsUsed })}
+              </>
+            )}
+          </div>
+        )}
+      </button>
+
+      <div className="flex items-center justify-between gap-2 px-5 pb-3">
+        <div className="flex flex-wrap items-center gap-1.5 min-w-0">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-0.5 pl-2 pr-1 py-0.5 bg-slate-100 text-slate-600 text-xs rounded-full">
+              #{tag}
+              <button
+                onClick={() => onTagsChange(item, tags.filter(other => other !== tag))}
+                className="p-0.5 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+                title={t('history.removeTag', { tag })}
+              >
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          {tagDraft !== null ? (
+            <input
+              autoFocus
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              onBlur={commitTag}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTag();
+                if (e.key === 'Escape') setTagDraft(null);
+              }}
+              placeholder={t('history.tagPlaceholder')}
+              className="w-28 px-2 py-0.5 text-xs rounded-full border border-blue-300 focus:outline-none"
+            />
+          ) : (
+            <button
+              onClick={() => setTagDraft('')}
+              className="flex items-center gap-0.5 px-2 py-0.5 text-xs text-slate-400 hover:text-blue-600 rounded-full border border-dashed border-slate-200 hover:border-blue-300"
+            >
+              <Plus size={10} />
+              {t('history.addTag')}
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center flex-shrink-0">
+          <button
+            onClick={() => onToggleStar(item)}
+            className={`p-2 rounded-lg transition-colors ${
+              item.starred ? 'text-amber-500 hover:bg-amber-50' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+            }`}
+            title={item.starred ? t('history.unstar') : t('history.star')}
+          >
+            <Star size={16} className={item.starred ? 'fill-amber-400' : ''} />
+          </button>
+          <ExportMenu item={item} />
+          <button
+            onClick={() => onDelete(item)}
+            className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+            title={t('history.delete')}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryCard;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Search, Star, X } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, HistoryOutcome, isHistoryFiltered } from '../services/historyFilterService';
+
+interface HistoryFiltersProps {
+  filter: HistoryFilter;
+  onChange: (filter: HistoryFilter) => void;
+  // Choices found in the history
+  subjects: string[];
+  tags: string[];
+}
+
+const selectClassName = 'p-2 rounded-lg border border-slate-200 text-sm bg-white text-slate-700';
+
+const HistoryFilters: React.FC<HistoryFiltersProps> = ({ filter, onChange, subjects, tags }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<HistoryFilter>) => onChange({ ...filter, ...changes });
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3">
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder={t('history.searchPlaceholder')}
+          className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.subject}
+          onChange={(e) => update({ subject: e.target.value })}
+          className={selectClassName}
+          aria-label={t('history.filter.subject')}
+        >
+          <option value="">{t('history.filter.allSubjects')}</option>
+          {subjects.map(subject => (
+            <option key={subject} value={subject}>{subject}</option>
+          ))}
+        </select>
+
+        <select
+          value={filter.outcome}
+          onChange={(e) => update({ outcome: e.target.value as HistoryOutcome })}
+          className={selectClassName}
+          aria-label={t('history.filter.outcome')}
+        >
+          <option value="all">{t('history.filter.allOutcomes')}</option>
+          <option value="mastered">{t('history.masteredBadge')}</option>
+          <option value="in_progress">{t('history.filter.inProgress')}</option>
+        </select>
+
+        {tags.length > 0 && (
+          <select
+            value={filter.tag}
+            onChange={(e) => update({ tag: e.target.value })}
+            className={selectClassName}
+            aria-label={t('history.filter.tag')}
+          >
+            <option value="">{t('history.filter.allTags')}</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        )}
+
+        <label className="flex items-center gap-1 text-sm text-slate-500">
+          {t('history.filter.from')}
+          <input
+            type="date"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-slate-500">
+          {t('history.filter.to')}
+          <input
+            type="date"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            className={selectClassName}
+          />
+        </label>
+
+        <button
+          onClick={() => update({ starredOnly: !filter.starredOnly })}
+          className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+            filter.starredOnly ? 'bg-amber-100 text-amber-700' : 'text-slate-500 hover:bg-slate-100'
+          }`}
+        >
+          <Star size={14} className={filter.starredOnly ? 'fill-amber-400' : ''} />
+          {t('history.filter.starred')}
+        </button>
+
+        {isHistoryFiltered(filter) && (
+          <button
+            onClick={() => onChange(EMPTY_HISTORY_FILTER)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            <X size={14} />
+            {t('history.filter.clear')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryFilters;
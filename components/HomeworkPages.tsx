@@ -0,0 +1,123 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X, FileText, Plus, Crop, ImageOff } from 'lucide-react';
+import { HomeworkPage, ErrorBox } from '../types';
+import { useI18n } from '../i18n';
+
+interface HomeworkPagesProps {
+  pages: HomeworkPage[];
+  onMove: (index: number, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+  onEdit: (id: string) => void;
+  // Page the diagnosis points at (1-based)
+  highlightPage?: number;
+  // Region of the error on that page, with the step text for its tooltip
+  highlightBox?: ErrorBox;
+  highlightLabel?: string;
+  // Pages are locked once a diagnosis refers to them by number
+  readOnly?: boolean;
+}
+
+const HomeworkPages: React.FC<HomeworkPagesProps> = ({ pages, onMove, onRemove, onAdd, onEdit, highlightPage, highlightBox, highlightLabel, readOnly }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-3">
+      {pages.map((page, index) => {
+        const isHighlighted = highlightPage === index + 1;
+        return (
+          <div
+            key={page.id}
+            className={`relative rounded-xl overflow-hidden bg-slate-100 border group ${
+              isHighlighted ? 'border-amber-400 ring-2 ring-amber-200' : 'border-slate-200'
+            }`}
+          >
+            {page.unavailable ? (
+              <div className="h-32 flex flex-col items-center justify-center text-slate-400 p-4 text-center">
+                <ImageOff className="w-10 h-10 mb-2 opacity-50" />
+                <p className="text-xs font-medium">{t('pages.unavailable', { number: index + 1 })}</p>
+              </div>
+            ) : page.file.type === 'application/pdf' ? (
+              <div className="h-32 flex flex-col items-center justify-center text-slate-500 p-4 text-center">
+                <FileText className="w-10 h-10 mb-2 opacity-50" />
+                <p className="text-xs font-medium truncate max-w-full">{page.file.name}</p>
+              </div>
+            ) : (
+              // Sized to the image itself so the overlay lines up with it
+              <div className="relative w-fit mx-auto">
+                <img src={page.previewUrl} alt={t('pages.alt', { number: index + 1 })} className="block max-w-full h-auto max-h-[300px]" />
+                {isHighlighted && highlightBox && (
+                  <div
+                    className="absolute border-2 border-red-500 bg-red-500/15 rounded-sm"
+                    style={{
+                      top: `${highlightBox.ymin / 10}%`,
+                      left: `${highlightBox.xmin / 10}%`,
+                      height: `${(highlightBox.ymax - highlightBox.ymin) / 10}%`,
+                      width: `${(highlightBox.xmax - highlightBox.xmin) / 10}%`,
+                    }}
+                    title={highlightLabel}
+                  />
+                )}
+              </div>
+            )}
+
+            <div className={`absolute top-2 left-2 px-2 py-0.5 rounded-md text-xs font-bold shadow-sm ${
+              isHighlighted ? 'bg-amber-500 text-white' : 'bg-white/90 text-slate-600'
+            }`}>
+              {t('pages.page', { number: index + 1 })}
+            </div>
+
+            {!readOnly && (
+              <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {page.file.type !== 'application/pdf' && (
+                  <button
+                    onClick={() => onEdit(page.id)}
+                    className="p-1 bg-white/90 hover:bg-white rounded-md text-slate-600 shadow-sm border border-slate-200"
+                    title={t('pages.edit')}
+                  >
+                    <Crop size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onMove(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 bg-white/90 hover:bg-white rounded-md text-slate-600 shadow-sm border border-slate-200 disabled:opacity-40"
+                  title={t('pages.moveUp')}
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  onClick={() => onMove(index, 1)}
+                  disabled={index === pages.length - 1}
+                  className="p-1 bg-white/90 hover:bg-white rounded-md text-slate-600 shadow-sm border border-slate-200 disabled:opacity-40"
+                  title={t('pages.moveDown')}
+                >
+                  <ChevronDown size={14} />
+                </button>
+                <button
+                  onClick={() => onRemove(page.id)}
+                  className="p-1 bg-white/90 hover:bg-red-50 rounded-md text-red-500 shadow-sm border border-slate-200"
+                  title={t('pages.remove')}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {!readOnly && (
+        <button
+          onClick={onAdd}
+          className="w-full flex items-center justify-center gap-2 py-2 border-2 border-dashed border-slate-300 hover:border-blue-400 hover:bg-slate-50 rounded-xl text-sm font-medium text-slate-600 transition-all"
+        >
+          <Plus size={16} />
+          {t('pages.add')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HomeworkPages;
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, WandSparkles, Loader2, Check, X, Undo2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { CropRect, ImageEdits } from '../types';
+import {
+  DEFAULT_EDITS,
+  MAX_STRAIGHTEN_DEGREES,
+  estimateSkew,
+  loadEditableImage,
+  renderEdits,
+} from '../services/imageService';
+
+interface ImageEditorProps {
+  original: File;
+  initialEdits?: ImageEdits;
+  // 1-based position of the page being edited, for the title
+  pageNumber: number;
+  onApply: (edits: ImageEdits) => void;
+  onCancel: () => void;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const PREVIEW_MAX_DIMENSION = 900;
+const MIN_CROP = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Applies a pointer movement (in fractions of the preview) to the crop box
+const moveCrop = (crop: CropRect, handle: DragHandle, dx: number, dy: number): CropRect => {
+  if (handle === 'move') {
+    return { ...crop, x: clamp(crop.x + dx, 0, 1 - crop.width), y: clamp(crop.y + dy, 0, 1 - crop.height) };
+  }
+  let { x, y, width, height } = crop;
+  if (handle === 'nw' || handle === 'sw') {
+    const newX = clamp(x + dx, 0, x + width - MIN_CROP);
+    width += x - newX;
+    x = newX;
+  } else {
+    width = clamp(width + dx, MIN_CROP, 1 - x);
+  }
+  if (handle === 'nw' || handle === 'ne') {
+    const newY = clamp(y + dy, 0, y + height - MIN_CROP);
+    height += y - newY;
+    y = newY;
+  } else {
+    height = clamp(height + dy, MIN_CROP, 1 - y);
+  }
+  return { x, y, width, height };
+};
+
+const HANDLE_POSITIONS: Record<Exclude<DragHandle, 'move'>, string> = {
+  nw: '-top-1.5 -left-1.5 cursor-nwse-resize',
+  ne: '-top-1.5 -right-1.5 cursor-nesw-resize',
+  sw: '-bottom-1.5 -left-1.5 cursor-nesw-resize',
+  se: '-bottom-1.5 -right-1.5 cursor-nwse-resize',
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ original, initialEdits, pageNumber, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits ?? DEFAULT_EDITS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const dragRef = useRef<{ handle: DragHandle; startX: number; startY: number; startCrop: CropRect } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let loaded: ImageBitmap | null = null;
+    let cancelled = false;
+    loadEditableImage(original)
+      .then(result => {
+        if (cancelled) return result.close();
+        loaded = result;
+        setBitmap(result);
+      })
+      .catch(err => {
+        console.error("Failed to open image for editing", err);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [original]);
+
+  // Preview shows rotation and contrast; the crop is drawn on top of it
+  useEffect(() => {
+    if (!bitmap) return;
+    const canvas = renderEdits(bitmap, { ...edits, crop: DEFAULT_EDITS.crop }, PREVIEW_MAX_DIMENSION);
+    setPreviewUrl(canvas.toDataURL('image/jpeg', 0.85));
+  }, [bitmap, edits.quarterTurns, edits.straighten, edits.contrast]);
+
+  const update = (changes: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...changes }));
+
+  // Turning changes the frame, so the crop starts over
+  const turn = (direction: 1 | -1) =>
+    update({ quarterTurns: (edits.quarterTurns + direction + 4) % 4, straighten: 0, crop: DEFAULT_EDITS.crop });
+
+  const handleAutoDeskew = () => {
+    if (bitmap) update({ straighten: estimateSkew(bitmap, edits.quarterTurns) });
+  };
+
+  const handlePointerDown = (handle: DragHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: edits.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    const dx = (e.clientX - drag.startX) / frame.width;
+    const dy = (e.clientY - drag.startY) / frame.height;
+    update({ crop: moveCrop(drag.startCrop, drag.handle, dx, dy) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const { crop } = edits;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/70 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-5 space-y-4">
+        <h2 className="text-lg font-semibold text-slate-700">{t('imageEditor.title', { number: pageNumber })}</h2>
+
+        <div className="flex items-center justify-center bg-slate-100 rounded-xl p-4 min-h-[240px]">
+          {loadFailed ? (
+            <p className="text-sm text-red-600">{t('imageEditor.loadFailed')}</p>
+          ) : !previewUrl ? (
+            <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+          ) : (
+            <div
+              ref={frameRef}
+              className="relative select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={previewUrl} alt="" className="block max-h-[55vh] w-auto" draggable={false} />
+              {/* Everything outside the crop box is dimmed by its oversized shadow */}
+              <div className="absolute inset-0 overflow-hidden pointer-events-none">
+                <div
+                  className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(15,23,42,0.55)]"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+              </div>
+              <div
+                className="absolute cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+                onPointerDown={handlePointerDown('move')}
+              >
+                {(Object.keys(HANDLE_POSITIONS) as Exclude<DragHandle, 'move'>[]).map(handle => (
+                  <div
+                    key={handle}
+                    onPointerDown={handlePointerDown(handle)}
+                    className={`absolute w-3 h-3 bg-white border border-blue-600 rounded-sm ${HANDLE_POSITIONS[handle]}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => turn(-1)} disabled={!bitmap} className="p-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40" title={t('imageEditor.rotateLeft')}>
+            <RotateCcw size={18} />
+          </button>
+          <button onClick={() => turn(1)} disabled={!bitmap} className="p-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40" title={t('imageEditor.rotateRight')}>
+            <RotateCw size={18} />
+          </button>
+          <button
+            onClick={handleAutoDeskew}
+            disabled={!bitmap}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            <WandSparkles size={16} />
+            {t('imageEditor.autoDeskew')}
+          </button>
+          <button
+            onClick={() => setEdits(DEFAULT_EDITS)}
+            disabled={!bitmap}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-40"
+          >
+            <Undo2 size={16} />
+            {t('imageEditor.reset')}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm text-slate-600">
+            {t('imageEditor.straighten', { degrees: edits.straighten.toFixed(1) })}
+            <input
+              type="range"
+              min={-MAX_STRAIGHTEN_DEGREES}
+              max={MAX_STRAIGHTEN_DEGREES}
+              step={0.5}
+              value={edits.straighten}
+              onChange={(e) => update({ straighten: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+          <label className="block text-sm text-slate-600">
+            {t('imageEditor.contrast', { percent: Math.round(edits.contrast * 100) })}
+            <input
+              type="range"
+              min={0.5}
+              max={2}
+              step={0.05}
+              value={edits.contrast}
+              onChange={(e) => update({ contrast: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <X size={16} />
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onApply(edits)}
+            disabled={!bitmap}
+            className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-100 disabled:text-slate-400"
+          >
+            <Check size={16} />
+            {t('imageEditor.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
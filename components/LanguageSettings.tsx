@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { AppSettings } from '../types';
+import { useI18n, UI_LOCALES } from '../i18n';
+import { TUTOR_LANGUAGES } from '../services/tutorApi';
+
+interface LanguageSettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const LanguageSettings: React.FC<LanguageSettingsProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+          isOpen ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'
+        }`}
+        title={t('settings.title')}
+      >
+        <Globe size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl border border-slate-200 shadow-lg p-4 space-y-3 z-20">
+          <label className="block">
+            <span className="text-xs font-bold uppercase text-slate-400">{t('settings.interfaceLanguage')}</span>
+            <select
+              value={settings.uiLocale}
+              onChange={(e) => onChange({ ...settings, uiLocale: e.target.value as AppSettings['uiLocale'] })}
+              className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm bg-white"
+            >
+              {UI_LOCALES.map(locale => (
+                <option key={locale.code} value={locale.code}>{locale.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold uppercase text-slate-400">{t('settings.tutorLanguage')}</span>
+            <select
+              value={settings.tutorLanguage}
+              onChange={(e) => onChange({ ...settings, tutorLanguage: e.target.value })}
+              className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm bg-white"
+            >
+              {TUTOR_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.nativeName}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguageSettings;
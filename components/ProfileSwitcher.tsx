@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, UserCircle2 } from 'lucide-react';
+import { LearnerProfile } from '../types';
+import { useI18n, Translate } from '../i18n';
+import { GRADE_LEVELS, TUTOR_LANGUAGES } from '../services/tutorApi';
+
+// Fields of the add/edit form; the language only applies to new profiles,
+// existing ones change it in their language settings
+export interface ProfileDetails {
+  name: string;
+  gradeLevel?: string;
+  tutorLanguage: string;
+}
+
+interface ProfileSwitcherProps {
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile;
+  tutorLanguage: string;
+  // Switching waits while a request for the current learner is running
+  disabled: boolean;
+  onSwitch: (profileId: string) => void;
+  onCreate: (details: ProfileDetails) => void;
+  onUpdate: (details: ProfileDetails) => void;
+}
+
+export const profileName = (profile: LearnerProfile, t: Translate) => profile.name || t('profile.defaultName');
+
+const gradeLabel = (code: string, t: Translate) =>
+  code === 'university' ? t('profile.university') : t('profile.grade', { number: code });
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeProfile,
+  tutorLanguage,
+  disabled,
+  onSwitch,
+  onCreate,
+  onUpdate,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  // Form being filled in, if any
+  const [form, setForm] = useState<{ mode: 'create' | 'edit'; details: ProfileDetails } | null>(null);
+
+  const close = () => {
+    setIsOpen(false);
+    setForm(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    const details = { ...form.details, name: form.details.name.trim() };
+    if (form.mode === 'create') {
+      onCreate(details);
+    } else {
+      onUpdate(details);
+    }
+    close();
+  };
+
+  const updateForm = (changes: Partial<ProfileDetails>) =>
+    setForm(current => current && { ...current, details: { ...current.details, ...changes } });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+          isOpen ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'
+        }`}
+        title={t('profile.title')}
+      >
+        <UserCircle2 size={18} />
+        <span className="max-w-[8rem] truncate">{profileName(activeProfile, t)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl border border-slate-200 shadow-lg p-2 z-20">
+          {form ? (
+            <form onSubmit={handleSubmit} className="p-2 space-y-3">
+              <p className="text-sm font-bold text-slate-700">
+                {form.mode === 'create' ? t('profile.add') : t('profile.edit')}
+              </p>
+              <label className="block">
+                <span className="text-xs font-bold uppercase text-slate-400">{t('profile.name')}</span>
+                <input
+                  autoFocus
+                  required
+                  value={form.details.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-bold uppercase text-slate-400">{t('profile.gradeLevel')}</span>
+                <select
+                  value={form.details.gradeLevel ?? ''}
+                  onChange={(e) => updateForm({ gradeLevel: e.target.value || undefined })}
+                  className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm bg-white"
+                >
+                  <option value="">{t('profile.gradeUnset')}</option>
+                  {GRADE_LEVELS.map(level => (
+                    <option key={level.code} value={level.code}>{gradeLabel(level.code, t)}</option>
+                  ))}
+                </select>
+              </label>
+              {form.mode === 'create' && (
+                <label className="block">
+                  <span className="text-xs font-bold uppercase text-slate-400">{t('settings.tutorLanguage')}</span>
+                  <select
+                    value={form.details.tutorLanguage}
+                    onChange={(e) => updateForm({ tutorLanguage: e.target.value })}
+                    className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm bg-white"
+                  >
+                    {TUTOR_LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code}>{language.nativeName}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  {t('profile.save')}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              {profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => {
+                    if (profile.id !== activeProfile.id) onSwitch(profile.id);
+                    close();
+                  }}
+                  disabled={disabled && profile.id !== activeProfile.id}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="w-4 flex-shrink-0 text-blue-600">
+                    {profile.id === activeProfile.id && <Check size={16} />}
+                  </span>
+                  <span className="flex-1 truncate font-medium text-slate-700">{profileName(profile, t)}</span>
+                  {profile.gradeLevel && (
+                    <span className="text-xs text-slate-400">{gradeLabel(profile.gradeLevel, t)}</span>
+                  )}
+                </button>
+              ))}
+              <div className="border-t border-slate-100 mt-1 pt-1">
+                <button
+                  onClick={() => setForm({
+                    mode: 'edit',
+                    details: { name: activeProfile.name, gradeLevel: activeProfile.gradeLevel, tutorLanguage },
+                  })}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-600 hover:bg-slate-50"
+                >
+                  <Pencil size={14} />
+                  {t('profile.edit')}
+                </button>
+                <button
+                  onClick={() => setForm({ mode: 'create', details: { name: '', tutorLanguage } })}
+                  disabled={disabled}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus size={14} />
+                  {t('profile.add')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
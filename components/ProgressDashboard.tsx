@@ -0,0 +1,157 @@
+import React from 'react';
+import { TrendingUp, TrendingDown, Minus, BarChart3, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ConceptMastery } from '../types';
+import { getMasteryTrend, WEAK_MASTERY_THRESHOLD } from '../services/learnerModelService';
+import { useI18n } from '../i18n';
+
+interface ProgressDashboardProps {
+  concepts: ConceptMastery[];
+  onStartNew: () => void;
+}
+
+const masteryColor = (mastery: number) =>
+  mastery >= 0.8 ? 'bg-green-500' : mastery >= WEAK_MASTERY_THRESHOLD ? 'bg-yellow-400' : 'bg-red-400';
+
+// Mastery over time as a small inline line chart
+const Sparkline: React.FC<{ concept: ConceptMastery }> = ({ concept }) => {
+  const points = concept.history.slice(-20);
+  if (points.length < 2) return null;
+
+  const width = 120;
+  const height = 32;
+  const path = points
+    .map((point, index) => {
+      const x = (index / (points.length - 1)) * width;
+      const y = height - point.mastery * height;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="overflow-visible text-blue-500">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+const TrendBadge: React.FC<{ trend: number }> = ({ trend }) => {
+  const { t } = useI18n();
+  if (Math.abs(trend) < 0.05) {
+    return <span className="flex items-center gap-1 text-xs text-slate-400"><Minus size={14} />{t('progress.trendSteady')}</span>;
+  }
+  return trend > 0 ? (
+    <span className="flex items-center gap-1 text-xs text-green-600 font-medium"><TrendingUp size={14} />{t('progress.trendImproving')}</span>
+  ) : (
+    <span className="flex items-center gap-1 text-xs text-red-500 font-medium"><TrendingDown size={14} />{t('progress.trendSlipping')}</span>
+  );
+};
+
+const ConceptRow: React.FC<{ concept: ConceptMastery }> = ({ concept }) => {
+  const { t } = useI18n();
+  const percent = Math.round(concept.mastery * 100);
+  const attempts = concept.outcomeCounts.CORRECT + concept.outcomeCounts.CONCEPT_ERROR + concept.outcomeCounts.CALCULATION_ERROR;
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200">
+      <div className="flex justify-between items-start gap-4 mb-3">
+        <div>
+          {concept.subject && (
+            <div className="text-xs font-bold uppercase text-indigo-500 mb-1">{concept.subject}</div>
+          )}
+          <h3 className="font-bold text-slate-800">{concept.topic}</h3>
+        </div>
+        <div className="flex flex-col items-end gap-1 shrink-0">
+          <Sparkline concept={concept} />
+          <TrendBadge trend={getMasteryTrend(concept)} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-3">
+        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${masteryColor(concept.mastery)}`} style={{ width: `${percent}%` }} />
+        </div>
+        <span className="text-sm font-bold text-slate-700 w-10 text-right">{percent}%</span>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-500 mb-2">
+        <span>{t('progress.answers', { count: attempts })}</span>
+        <span className="text-green-600">{t('progress.correctCount', { count: concept.outcomeCounts.CORRECT })}</span>
+        <span className="text-red-500">{t('progress.conceptErrorCount', { count: concept.outcomeCounts.CONCEPT_ERROR })}</span>
+        <span className="text-yellow-600">{t('progress.calculationErrorCount', { count: concept.outcomeCounts.CALCULATION_ERROR })}</span>
+      </div>
+
+      {concept.misconceptions[0] && (
+        <div className="flex items-start gap-2 text-sm text-slate-500 line-clamp-2">
+          <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+          <span>{concept.misconceptions[0]}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ concepts, onStartNew }) => {
+  const { t } = useI18n();
+
+  if (concepts.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-slate-400 bg-white rounded-2xl border border-slate-200 border-dashed">
+        <BarChart3 className="w-16 h-16 mb-4 opacity-20" />
+        <p className="text-lg font-medium">{t('progress.emptyTitle')}</p>
+        <p className="text-sm">{t('progress.emptyHint')}</p>
+        <button onClick={onStartNew} className="mt-6 text-blue-600 font-semibold hover:underline">
+          {t('common.startNewAnalysis')}
+        </button>
+      </div>
+    );
+  }
+
+  const weak = concepts.filter(c => c.mastery < WEAK_MASTERY_THRESHOLD);
+  const strong = concepts.filter(c => c.mastery >= WEAK_MASTERY_THRESHOLD);
+  const average = Math.round((concepts.reduce((sum, c) => sum + c.mastery, 0) / concepts.length) * 100);
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-xl border border-slate-200">
+          <p className="text-xs text-slate-400 font-medium uppercase">{t('progress.concepts')}</p>
+          <p className="text-2xl font-bold text-slate-800">{concepts.length}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-slate-200">
+          <p className="text-xs text-slate-400 font-medium uppercase">{t('progress.averageMastery')}</p>
+          <p className="text-2xl font-bold text-slate-800">{average}%</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-slate-200">
+          <p className="text-xs text-slate-400 font-medium uppercase">{t('progress.needsWork')}</p>
+          <p className="text-2xl font-bold text-red-500">{weak.length}</p>
+        </div>
+      </div>
+
+      {weak.length > 0 && (
+        <section>
+          <h3 className="text-sm font-bold text-slate-500 uppercase mb-3 flex items-center gap-2">
+            <AlertTriangle size={16} className="text-amber-500" />
+            {t('progress.weakConcepts')}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {weak.map(concept => <ConceptRow key={concept.key} concept={concept} />)}
+          </div>
+        </section>
+      )}
+
+      {strong.length > 0 && (
+        <section>
+          <h3 className="text-sm font-bold text-slate-500 uppercase mb-3 flex items-center gap-2">
+            <CheckCircle2 size={16} className="text-green-500" />
+            {t('progress.onTrack')}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {strong.map(concept => <ConceptRow key={concept.key} concept={concept} />)}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { RotateCcw, Loader2, AlertTriangle, CalendarClock } from 'lucide-react';
+import { ReviewCard } from '../types';
+import { useI18n, Translate } from '../i18n';
+
+interface ReviewQueueProps {
+  cards: ReviewCard[];
+  onStart: (card: ReviewCard) => void;
+  // Card whose review question is being generated
+  loadingCardId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeDue = (card: ReviewCard, t: Translate) => {
+  const overdueDays = Math.floor((Date.now() - card.dueAt) / DAY_MS);
+  if (overdueDays <= 0) return t('review.dueToday');
+  return t('review.overdue', { count: overdueDays });
+};
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ cards, onStart, loadingCardId }) => {
+  const { t } = useI18n();
+
+  if (cards.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-slate-400 bg-white rounded-2xl border border-slate-200 border-dashed">
+        <CalendarClock className="w-16 h-16 mb-4 opacity-20" />
+        <p className="text-lg font-medium">{t('review.emptyTitle')}</p>
+        <p className="text-sm">{t('review.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {cards.map(card => (
+        <div key={card.historyId} className="bg-white p-5 rounded-xl border border-slate-200 flex flex-col">
+          <div className="flex justify-between items-start mb-3">
+            <div className="flex items-center gap-2 text-xs text-amber-600 font-medium bg-amber-50 px-2 py-1 rounded-md">
+              <CalendarClock size={12} />
+              {describeDue(card, t)}
+            </div>
+            <div className="px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase rounded-md">
+              {card.subject || t('common.topic')}
+            </div>
+          </div>
+
+          <h3 className="font-bold text-slate-800 mb-1">{card.topic}</h3>
+          <div className="flex items-start gap-2 text-sm text-slate-600 line-clamp-2 mb-4">
+            <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+            <span className="text-slate-500">{card.misconception}</span>
+          </div>
+
+          <div className="mt-auto flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {card.repetitions === 0 ? t('review.first') : t('review.number', { number: card.repetitions + 1 })}
+            </span>
+            <button
+              onClick={() => onStart(card)}
+              disabled={loadingCardId !== null}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                loadingCardId !== null
+                  ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {loadingCardId === card.historyId ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+              {t('review.start')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewQueue;
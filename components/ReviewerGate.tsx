@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { MIN_REVIEWER_PIN_LENGTH, hashReviewerPin } from '../services/supervisorService';
+
+interface ReviewerGateProps {
+  // Absent until a teacher or parent has chosen a PIN
+  pinHash?: string;
+  onUnlock: () => void;
+  onPinSet: (pinHash: string) => void;
+}
+
+// Asks for the reviewer PIN before review mode opens, or for a new one on first use
+const ReviewerGate: React.FC<ReviewerGateProps> = ({ pinHash, onUnlock, onPinSet }) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isSetup = !pinHash;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSetup) {
+      if (pin.length < MIN_REVIEWER_PIN_LENGTH) {
+        setError(t('supervisor.pinTooShort', { min: MIN_REVIEWER_PIN_LENGTH }));
+      } else if (pin !== confirmation) {
+        setError(t('supervisor.pinMismatch'));
+      } else {
+        onPinSet(hashReviewerPin(pin));
+      }
+      return;
+    }
+    if (hashReviewerPin(pin) === pinHash) {
+      onUnlock();
+    } else {
+      setError(t('supervisor.pinWrong'));
+      setPin('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center gap-2 text-slate-700">
+        <Lock size={18} className="text-slate-400" />
+        <p className="font-bold">{isSetup ? t('supervisor.pinSetupTitle') : t('supervisor.pinTitle')}</p>
+      </div>
+      <p className="text-sm text-slate-500">{isSetup ? t('supervisor.pinSetupIntro') : t('supervisor.pinIntro')}</p>
+      <label className="block">
+        <span className="text-xs font-bold uppercase text-slate-400">{t('supervisor.pin')}</span>
+        <input
+          autoFocus
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value);
+            setError(null);
+          }}
+          className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm"
+        />
+      </label>
+      {isSetup && (
+        <label className="block">
+          <span className="text-xs font-bold uppercase text-slate-400">{t('supervisor.pinConfirm')}</span>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={confirmation}
+            onChange={(e) => {
+              setConfirmation(e.target.value);
+              setError(null);
+            }}
+            className="mt-1 w-full p-2 rounded-lg border border-slate-200 text-sm"
+          />
+        </label>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!pin}
+          className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSetup ? t('supervisor.pinSet') : t('supervisor.unlock')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReviewerGate;
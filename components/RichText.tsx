@@ -0,0 +1,46 @@
+import React from 'react';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/contrib/mhchem';
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+  // Keep data: image URLs, which react-markdown drops by default (used by exported reports)
+  allowImageData?: boolean;
+}
+
+// remark-math only understands $ delimiters; models often use \( \) and \[ \]
+const normalizeMath = (content: string) =>
+  content
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math}$`);
+
+const keepImageData = (url: string) => (url.startsWith('data:image/') ? url : defaultUrlTransform(url));
+
+// Tailwind's preflight strips list and paragraph styling, so restore the basics
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 last:mb-0 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 last:mb-0 space-y-1">{children}</ol>,
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  code: ({ children }) => <code className="font-mono text-[0.9em] bg-black/5 px-1 rounded">{children}</code>,
+  a: ({ children, href }) => <a href={href} target="_blank" rel="noreferrer" className="underline">{children}</a>,
+};
+
+// Markdown with LaTeX math ($...$, $$...$$) and mhchem (\ce{...}) for tutor content
+const RichText: React.FC<RichTextProps> = ({ content, className, allowImageData }) => (
+  <div className={className}>
+    <ReactMarkdown
+      remarkPlugins={[remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      components={components}
+      urlTransform={allowImageData ? keepImageData : undefined}
+    >
+      {normalizeMath(content)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default RichText;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface SupervisorNoteProps {
+  note: string;
+  className?: string;
+}
+
+// A teacher's or parent's note, as the student sees it
+const SupervisorNote: React.FC<SupervisorNoteProps> = ({ note, className }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className={`flex items-start gap-2 p-2 rounded-lg bg-violet-50 border border-violet-100 text-xs text-violet-900 ${className ?? ''}`}>
+      <MessageSquareText size={14} className="flex-shrink-0 mt-0.5 text-violet-500" />
+      <div>
+        <span className="font-bold">{t('supervisor.noteLabel')}</span>{' '}
+        <span className="whitespace-pre-wrap">{note}</span>
+      </div>
+    </div>
+  );
+};
+
+export default SupervisorNote;
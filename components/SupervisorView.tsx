@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Bot, Calendar, CheckCircle2, ClipboardCheck, Flag, MessageSquarePlus, User } from 'lucide-react';
+import { ChatMessage, FeedbackResult, HistoryItem, SupervisorFeedback } from '../types';
+import { useI18n, evaluationKey, severityKey } from '../i18n';
+import { getSessionTranscript } from '../services/historyService';
+import { releaseMediaUrl, resolveChatMedia } from '../services/mediaService';
+import {
+  EVALUATIONS,
+  getAnnotation,
+  hasSupervisorFeedback,
+  isEvaluatedMessage,
+  setAnnotation,
+  setDiagnosisFlag,
+} from '../services/supervisorService';
+import RichText from './RichText';
+import EvaluationBadge from './EvaluationBadge';
+import SupervisorNote from './SupervisorNote';
+import AttachmentThumbnail from './AttachmentThumbnail';
+
+interface SupervisorViewProps {
+  history: HistoryItem[];
+  learnerName: string;
+  onFeedbackChange: (item: HistoryItem, feedback: SupervisorFeedback) => void;
+}
+
+type Evaluation = FeedbackResult['evaluation_result'];
+
+// Annotation being written on one message
+interface AnnotationDraft {
+  messageIndex: number;
+  note: string;
+  override: Evaluation | '';
+}
+
+// Read-only review of a learner's sessions for a teacher or parent. The only changes
+// possible are the reviewer's own: message annotations, verdict overrides and diagnosis flags.
+const SupervisorView: React.FC<SupervisorViewProps> = ({ history, learnerName, onFeedbackChange }) => {
+  const { t, formatDate } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(history[0]?.id ?? null);
+  const [transcript, setTranscript] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState<AnnotationDraft | null>(null);
+  const [flagDraft, setFlagDraft] = useState<string | null>(null);
+
+  const selected = history.find(item => item.id === selectedId) ?? history[0];
+  const feedback = selected?.supervisor_feedback;
+
+  // Recordings and attachments are resolved from storage for each session shown
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    let urls: string[] = [];
+    resolveChatMedia(getSessionTranscript(selected)).then(resolved => {
+      urls = resolved.flatMap(msg => [msg.audioUrl, ...(msg.attachments ?? []).map(a => a.url)]).filter(Boolean);
+      if (cancelled) {
+        urls.forEach(releaseMediaUrl);
+      } else {
+        setTranscript(resolved);
+      }
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach(releaseMediaUrl);
+    };
+  }, [selected?.id, selected?.chat_history?.length]);
+
+  const handleSelect = (item: HistoryItem) => {
+    setSelectedId(item.id);
+    setTranscript([]);
+    setDraft(null);
+    setFlagDraft(null);
+  };
+
+  const saveDraft = () => {
+    if (!selected || !draft) return;
+    onFeedbackChange(selected, setAnnotation(feedback, draft.messageIndex, {
+      note: draft.note,
+      evaluation_override: draft.override || undefined,
+    }));
+    setDraft(null);
+  };
+
+  const saveFlag = () => {
+    if (!selected || flagDraft === null || !flagDraft.trim()) return;
+    onFeedbackChange(selected, setDiagnosisFlag(feedback, flagDraft));
+    setFlagDraft(null);
+  };
+
+  if (!selected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-slate-400 bg-white rounded-2xl border border-slate-200 border-dashed">
+        <ClipboardCheck className="w-16 h-16 mb-4 opacity-20" />
+        <p className="text-lg font-medium">{t('supervisor.empty', { name: learnerName })}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Sessions */}
+      <div className="space-y-2 lg:max-h-[75vh] lg:overflow-y-auto">
+        {history.map(item => (
+          <button
+            key={item.id}
+            onClick={() => handleSelect(item)}
+            className={`w-full text-left p-3 rounded-xl border transition-colors ${
+              item.id === selected.id ? 'border-blue-400 bg-blue-50' : 'border-slate-200 bg-white hover:border-blue-300'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+              <span className="flex items-center gap-1">
+                <Calendar size={12} />
+                {formatDate(item.timestamp)}
+              </span>
+              <span className="flex items-center gap-1">
+                {item.supervisor_feedback?.diagnosis_flag && <Flag size={12} className="text-red-500" />}
+                {hasSupervisorFeedback(item.supervisor_feedback) && !item.supervisor_feedback?.diagnosis_flag && (
+                  <MessageSquarePlus size={12} className="text-violet-500" />
+                )}
+                {item.mastery_achieved && <CheckCircle2 size={12} className="text-green-600" />}
+              </span>
+            </div>
+            <p className="mt-1 font-semibold text-sm text-slate-700 truncate">{item.new_practice_question.topic}</p>
+            <p className="text-xs text-slate-500 line-clamp-2">{item.conceptual_misunderstanding}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Selected session */}
+      <div className="lg:col-span-2 space-y-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="text-xs text-slate-400">{formatDate(selected.timestamp)}</p>
+              <h3 className="font-bold text-slate-800">{selected.new_practice_question.topic}</h3>
+            </div>
+            <span className={`px-2 py-1 text-xs font-bold uppercase rounded-md ${
+              selected.mastery_achieved ? 'bg-green-50 text-green-700' : 'bg-slate-50 text-slate-500'
+            }`}>
+              {selected.mastery_achieved ? t('history.masteredBadge') : t('history.filter.inProgress')}
+            </span>
+          </div>
+
+          {/* Diagnosis */}
+          <div className="mt-4 p-4 rounded-xl bg-amber-50 border border-amber-100">
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <h4 className="flex items-center gap-2 font-bold text-amber-900 text-sm">
+                <AlertTriangle size={16} />
+                {t('diagnosis.title')}
+              </h4>
+              {!feedback?.diagnosis_flag && flagDraft === null && (
+                <button
+                  onClick={() => setFlagDraft('')}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-red-600 hover:bg-red-50"
+                >
+                  <Flag size={12} />
+                  {t('supervisor.flagDiagnosis')}
+                </button>
+              )}
+            </div>
+            <RichText content={selected.conceptual_misunderstanding} className="text-amber-800 text-sm leading-relaxed" />
+            {(selected.problem || selected.severity || selected.error_step) && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-amber-900">
+                {selected.problem && <span className="px-2 py-0.5 bg-amber-100 rounded font-bold">{selected.problem}</span>}
+                {selected.severity && <span className="px-2 py-0.5 bg-amber-100 rounded">{t(severityKey(selected.severity))}</span>}
+                {selected.error_step && (
+                  <span className="font-mono bg-white/60 px-2 py-0.5 rounded border border-amber-100">{selected.error_step}</span>
+                )}
+              </div>
+            )}
+            <RichText
+              content={selected.tutor_feedback}
+              className="mt-3 text-xs bg-white/50 p-2 rounded text-amber-900/70 italic border border-amber-100/50"
+            />
+
+            {feedback?.diagnosis_flag && (
+              <div className="mt-3 flex items-start justify-between gap-2 p-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-800">
+                <div className="flex items-start gap-2">
+                  <Flag size={14} className="flex-shrink-0 mt-0.5" />
+                  <div>
+                    <span className="font-bold">{t('supervisor.flaggedLabel')}</span>{' '}
+                    <span className="whitespace-pre-wrap">{feedback.diagnosis_flag.note}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onFeedbackChange(selected, setDiagnosisFlag(feedback, null))}
+                  className="flex-shrink-0 font-medium hover:underline"
+                >
+                  {t('supervisor.removeFlag')}
+                </button>
+              </div>
+            )}
+            {flagDraft !== null && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  autoFocus
+                  value={flagDraft}
+                  onChange={(e) => setFlagDraft(e.target.value)}
+                  placeholder={t('supervisor.flagPlaceholder')}
+                  className="w-full p-2 rounded-lg border border-red-200 text-sm bg-white h-20 resize-none focus:outline-none focus:ring-2 focus:ring-red-100"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setFlagDraft(null)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={saveFlag}
+                    disabled={!flagDraft.trim()}
+                    className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {t('supervisor.flagDiagnosis')}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Transcript */}
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+          <h4 className="font-semibold text-slate-700 text-sm">{t('report.conversation')}</h4>
+          {transcript.map((msg, idx) => {
+            const annotation = getAnnotation(feedback, idx);
+            const isEditing = draft?.messageIndex === idx;
+            return (
+              <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
+                  msg.role === 'user' ? 'bg-slate-200 text-slate-500' : 'bg-blue-100 text-blue-600'
+                }`}>
+                  {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
+                </div>
+                <div className="max-w-[80%] space-y-2">
+                  <div className={`rounded-2xl p-4 text-sm leading-relaxed border ${
+                    msg.role === 'user'
+                      ? 'bg-blue-50 border-blue-100 text-slate-800 rounded-tr-none'
+                      : 'bg-white border-slate-200 text-slate-700 rounded-tl-none'
+                  }`}>
+                    <EvaluationBadge message={msg} annotation={annotation} />
+                    <RichText content={msg.content} />
+                    {msg.attachments && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {msg.attachments.map((attachment, attachmentIndex) => (
+                          <AttachmentThumbnail
+                            key={attachment.url}
+                            url={attachment.url}
+                            mimeType={attachment.mimeType}
+                            name={attachment.name}
+                            alt={t('chat.attachmentAlt', { number: attachmentIndex + 1 })}
+                            className="h-24"
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {msg.audioUrl && <audio controls src={msg.audioUrl} className="mt-2 w-full max-w-[260px] h-8" />}
+                  </div>
+
+                  {annotation?.note && !isEditing && <SupervisorNote note={annotation.note} />}
+
+                  {isEditing ? (
+                    <div className="p-3 rounded-xl bg-violet-50 border border-violet-100 space-y-2">
+                      <textarea
+                        autoFocus
+                        value={draft.note}
+                        onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                        placeholder={t('supervisor.notePlaceholder')}
+                        className="w-full p-2 rounded-lg border border-violet-200 text-sm bg-white h-20 resize-none focus:outline-none focus:ring-2 focus:ring-violet-100"
+                      />
+                      {isEvaluatedMessage(msg) && (
+                        <label className="flex items-center gap-2 text-xs text-violet-900">
+                          {t('supervisor.override')}
+                          <select
+                            value={draft.override}
+                            onChange={(e) => setDraft({ ...draft, override: e.target.value as Evaluation | '' })}
+                            className="p-1.5 rounded-lg border border-violet-200 text-xs bg-white"
+                          >
+                            <option value="">{t('supervisor.keepVerdict')}</option>
+                            {EVALUATIONS.filter(evaluation => evaluation !== msg.feedbackType).map(evaluation => (
+                              <option key={evaluation} value={evaluation}>{t(evaluationKey(evaluation))}</option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setDraft(null)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white"
+                        >
+                          {t('common.cancel')}
+                        </button>
+                        <button
+                          onClick={saveDraft}
+                          className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-violet-600 text-white hover:bg-violet-700"
+                        >
+                          {t('supervisor.save')}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setDraft({
+                        messageIndex: idx,
+                        note: annotation?.note ?? '',
+                        override: annotation?.evaluation_override ?? '',
+                      })}
+                      className={`flex items-center gap-1 text-xs text-slate-400 hover:text-violet-600 ${msg.role === 'user' ? 'ml-auto' : ''}`}
+                    >
+                      <MessageSquarePlus size={12} />
+                      {annotation ? t('supervisor.editAnnotation') : t('supervisor.annotate')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupervisorView;
@@ -0,0 +1,87 @@
+import React, { createContext, useContext } from 'react';
+import { en, MessageKey, Messages } from './locales/en';
+import { zhCN } from './locales/zh-CN';
+import { TutorServiceError } from '../services/errors';
+import { ErrorSeverity, FeedbackResult, HintLevel } from '../types';
+
+export type UiLocale = 'en' | 'zh-CN';
+
+export const UI_LOCALES: { code: UiLocale; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'zh-CN', label: '简体中文' },
+];
+
+const CATALOGS: Record<UiLocale, Messages> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+// `foo.one` / `foo.other` pairs are addressed as `foo` with a `count` parameter
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.other` ? Base : never) : never;
+export type TranslationKey = MessageKey | PluralKey;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+export interface I18n {
+  locale: UiLocale;
+  t: Translate;
+  formatDate: (timestamp: number) => string;
+  describeError: (error: unknown) => string;
+}
+
+export const resolveUiLocale = (language: string | undefined): UiLocale =>
+  language?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+
+const interpolate = (template: string, params?: TranslationParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export const createI18n = (locale: UiLocale): I18n => {
+  const catalog = CATALOGS[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+
+  const lookup = (key: string): string | undefined =>
+    (catalog as Record<string, string>)[key] ?? (en as Record<string, string>)[key];
+
+  const t: Translate = (key, params) => {
+    const count = params?.count;
+    const plural = typeof count === 'number' ? lookup(`${key}.${pluralRules.select(count)}`) ?? lookup(`${key}.other`) : undefined;
+    return interpolate(plural ?? lookup(key) ?? key, params);
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(locale, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  // User-facing text for errors thrown by the tutor services
+  const describeError = (error: unknown) => {
+    if (error instanceof TutorServiceError) {
+      return t(`errors.${error.code}` as MessageKey, {
+        action: t(`errors.action.${error.task}` as MessageKey),
+        result: t(`errors.result.${error.task}` as MessageKey),
+      });
+    }
+    return t('errors.unexpected');
+  };
+
+  return { locale, t, formatDate, describeError };
+};
+
+export const hintLevelKey = (level: HintLevel): MessageKey => `hints.level${level}`;
+
+export const severityKey = (severity: ErrorSeverity): MessageKey => `diagnosis.severity.${severity}`;
+
+const EVALUATION_KEYS: Record<FeedbackResult['evaluation_result'], MessageKey> = {
+  CORRECT: 'chat.correct',
+  CALCULATION_ERROR: 'chat.calculationCheck',
+  CONCEPT_ERROR: 'chat.conceptCheck',
+};
+
+export const evaluationKey = (evaluation: FeedbackResult['evaluation_result']): MessageKey => EVALUATION_KEYS[evaluation];
+
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
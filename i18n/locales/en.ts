@@ -0,0 +1,276 @@
+// English UI catalog; the source of truth for message keys.
+// Keys ending in `.one` / `.other` are plural forms, selected by the `count` parameter.
+export const en = {
+  'common.backToTutor': 'Back to Tutor',
+  'common.topic': 'Topic',
+  'common.startNewAnalysis': 'Start New Analysis',
+  'common.cancel': 'Cancel',
+
+  'nav.dueForReview': 'Due for Review',
+  'nav.progress': 'Progress',
+  'nav.history': 'History',
+  'nav.supervisor': 'Teacher & Parent',
+
+  'settings.title': 'Language',
+  'settings.interfaceLanguage': 'Interface language',
+  'settings.tutorLanguage': 'Tutoring language',
+
+  'profile.title': 'Learner profile',
+  'profile.defaultName': 'Me',
+  'profile.add': 'Add learner',
+  'profile.edit': 'Edit profile',
+  'profile.name': 'Name',
+  'profile.gradeLevel': 'Grade level',
+  'profile.gradeUnset': 'Not set',
+  'profile.grade': 'Grade {number}',
+  'profile.university': 'University',
+  'profile.save': 'Save',
+
+  'history.title': 'Learning History',
+  'history.clear': 'Clear History',
+  'history.clearConfirm': 'Are you sure you want to clear all history?',
+  'history.empty': 'No history yet',
+  'history.emptyHint': 'Upload homework to start your learning journey.',
+  'history.reviewBadge': 'Review',
+  'history.masteredBadge': 'Mastered',
+  'history.messageCount.one': '{count} message',
+  'history.messageCount.other': '{count} messages',
+  'history.hintCount.one': '{count} hint',
+  'history.hintCount.other': '{count} hints',
+  'history.errorRank': 'Error {rank} of {total}',
+  'history.matchCount': '{shown} of {total}',
+  'history.searchPlaceholder': 'Search topics, misconceptions and your thought process',
+  'history.noMatches': 'No sessions match these filters',
+  'history.filter.subject': 'Subject',
+  'history.filter.allSubjects': 'All subjects',
+  'history.filter.outcome': 'Outcome',
+  'history.filter.allOutcomes': 'Any outcome',
+  'history.filter.inProgress': 'In progress',
+  'history.filter.tag': 'Tag',
+  'history.filter.allTags': 'All tags',
+  'history.filter.from': 'From',
+  'history.filter.to': 'To',
+  'history.filter.starred': 'Starred',
+  'history.filter.clear': 'Clear filters',
+  'history.star': 'Star',
+  'history.unstar': 'Remove star',
+  'history.addTag': 'Tag',
+  'history.tagPlaceholder': 'New tag',
+  'history.removeTag': 'Remove tag {tag}',
+  'history.delete': 'Delete',
+  'history.deleteConfirm': 'Delete this session? Its saved pages and recordings are removed too.',
+  'history.supervisorBadge': 'Teacher notes',
+  'history.flaggedBadge': 'Flagged',
+
+  'review.title': 'Due for Review',
+  'review.emptyTitle': 'Nothing due for review',
+  'review.emptyHint': 'Past mistakes come back here at increasing intervals.',
+  'review.dueToday': 'Due today',
+  'review.overdue.one': 'Overdue by {count} day',
+  'review.overdue.other': 'Overdue by {count} days',
+  'review.first': 'First review',
+  'review.number': 'Review #{number}',
+  'review.start': 'Start Review',
+  'review.sessionIntro': 'Review #{number} of a concept you found tricky before.',
+
+  'progress.title': 'Learning Progress',
+  'progress.reset': 'Reset Progress',
+  'progress.resetConfirm': 'Are you sure you want to reset all progress data?',
+  'progress.emptyTitle': 'No progress data yet',
+  'progress.emptyHint': 'Complete a diagnosis to start tracking your concepts.',
+  'progress.concepts': 'Concepts',
+  'progress.averageMastery': 'Average Mastery',
+  'progress.needsWork': 'Needs Work',
+  'progress.weakConcepts': 'Weak Concepts',
+  'progress.onTrack': 'On Track',
+  'progress.trendSteady': 'Steady',
+  'progress.trendImproving': 'Improving',
+  'progress.trendSlipping': 'Slipping',
+  'progress.answers.one': '{count} practice answer',
+  'progress.answers.other': '{count} practice answers',
+  'progress.correctCount': '{count} correct',
+  'progress.conceptErrorCount': '{count} concept',
+  'progress.calculationErrorCount': '{count} calculation',
+
+  'upload.originalWork': 'Original Work',
+  'upload.imageNotPreserved': 'Image not preserved',
+  'upload.change': 'Change',
+  'upload.title': 'Upload Homework',
+  'upload.subtitle': 'Click or Drag & Drop · multiple pages or a PDF',
+  'upload.invalidType': 'Invalid file format. Please upload a JPG, PNG, WebP or HEIC image, or a PDF.',
+  'upload.tooLarge': 'File size exceeds the {size}MB limit. Please upload a smaller image.',
+  'upload.tooManyPages': 'You can upload up to {max} pages per submission.',
+  'upload.missing': 'Please upload an image of your homework first.',
+  'upload.processing': 'Preparing images...',
+  'upload.processingFailed': 'This image could not be opened. Please try a JPG or PNG instead.',
+
+  'pages.page': 'Page {number}',
+  'pages.alt': 'Homework page {number}',
+  'pages.unavailable': 'Page {number} is no longer stored on this device',
+  'pages.moveUp': 'Move Up',
+  'pages.moveDown': 'Move Down',
+  'pages.remove': 'Remove Page',
+  'pages.add': 'Add Page',
+  'pages.edit': 'Crop & Rotate',
+
+  'imageEditor.title': 'Adjust page {number}',
+  'imageEditor.loadFailed': 'This image could not be opened for editing.',
+  'imageEditor.rotateLeft': 'Rotate Left',
+  'imageEditor.rotateRight': 'Rotate Right',
+  'imageEditor.autoDeskew': 'Auto-straighten',
+  'imageEditor.reset': 'Reset',
+  'imageEditor.straighten': 'Straighten ({degrees}°)',
+  'imageEditor.contrast': 'Contrast ({percent}%)',
+  'imageEditor.apply': 'Apply',
+
+  'diagnosis.title': 'Diagnosis',
+  'diagnosis.errorsFound.one': '{count} error found',
+  'diagnosis.errorsFound.other': '{count} errors found',
+  'diagnosis.errorsHint': 'Work through them one at a time, starting with the most important.',
+  'diagnosis.severity.MAJOR': 'Major',
+  'diagnosis.severity.MODERATE': 'Moderate',
+  'diagnosis.severity.MINOR': 'Minor',
+
+  'input.thoughtProcess': 'Your Thought Process',
+  'input.thoughtPlaceholder': 'I was confused about...',
+  'input.diagnosing': 'Diagnosing...',
+  'input.startDiagnosis': 'Start Diagnosis',
+
+  'workspace.title': 'Omni-Tutor Workspace',
+  'workspace.hint': 'Upload your homework to start the tutoring session.',
+
+  'chat.hintBadge': 'Hint · {level}',
+  'chat.correct': 'Correct',
+  'chat.calculationCheck': 'Calculation Check',
+  'chat.conceptCheck': 'Concept Check',
+  'chat.masteredTitle': 'Concept Mastered!',
+  'chat.masteredText': "You've solved every question in this practice set.",
+  'chat.uploadNew': 'Upload New Homework',
+  'chat.nextError': 'Next Error',
+  'chat.replyPlaceholder': 'Type your next step here...',
+  'chat.audioResponse': '(Audio Response)',
+  'chat.transcribing': 'Transcribing your recording...',
+  'chat.transcriptLabel': 'Transcript of your recording. Correct anything that was misheard before sending.',
+  'chat.hintTooltip': 'Get a hint ({level})',
+  'chat.stuck': "I'm Stuck",
+  'chat.reply': 'Reply',
+  'chat.attachmentResponse': '(Attached work)',
+  'chat.attachmentAlt': 'Attached work {number}',
+  'chat.removeAttachment': 'Remove attachment',
+  'chat.tooManyAttachments': 'You can attach up to {max} files to a reply.',
+
+  'ladder.progress': 'Question {number} of {total}',
+  'ladder.questionTitle': 'Question {number} · Difficulty {level}',
+  'ladder.stepUp': 'Well done! Here is a harder question:',
+  'ladder.stepDown': "Let's step back and try an easier question first:",
+  'ladder.resume': 'Good. Now back to the question you were working on:',
+
+  'report.export': 'Export report',
+  'report.markdown': 'Markdown (.md)',
+  'report.pdf': 'Print / Save as PDF',
+  'report.popupBlocked': 'Allow pop-ups for this site to print the report.',
+  'report.title': 'Omni-Tutor Study Report',
+  'report.originalWork': 'Original Work',
+  'report.imagesNotSaved': 'The original work was not saved with this session.',
+  'report.pdfPage': 'Page {number} (PDF, not shown)',
+  'report.thoughtProcess': "Student's Thought Process",
+  'report.problem': 'Problem',
+  'report.severity': 'Severity',
+  'report.page': 'Page',
+  'report.errorStep': 'Step',
+  'report.practiceQuestions': 'Practice Questions',
+  'report.conversation': 'Tutoring Conversation',
+  'report.student': 'Student',
+  'report.tutor': 'Tutor',
+  'report.attachments.one': '{count} attached image of working',
+  'report.attachments.other': '{count} attached images of working',
+  'report.outcome': 'Outcome',
+  'report.mastered': 'Concept mastered',
+  'report.inProgress': 'In progress: {solved} of {total} practice questions solved',
+
+  'backup.export': 'Export backup',
+  'backup.import': 'Import backup',
+  'backup.imported': 'Backup imported: {added} added, {updated} updated, {unchanged} already up to date.',
+  'backup.skipped.one': '{count} session could not be read and was skipped.',
+  'backup.skipped.other': '{count} sessions could not be read and were skipped.',
+  'backup.invalidFile': 'This file is not an Omni-Tutor history backup.',
+  'backup.newerVersion': 'This backup was made by a newer version of Omni-Tutor. Update the app to import it.',
+
+  'supervisor.title': "Reviewing {name}'s sessions",
+  'supervisor.intro': 'Sessions are read-only here. Notes, changed verdicts and flags are shown to the student.',
+  'supervisor.empty': '{name} has no sessions to review yet',
+  'supervisor.annotate': 'Add note',
+  'supervisor.editAnnotation': 'Edit note',
+  'supervisor.notePlaceholder': 'Leave a note for the student on this message',
+  'supervisor.override': 'Verdict:',
+  'supervisor.keepVerdict': "Keep the tutor's verdict",
+  'supervisor.overriddenBy': 'Changed by a teacher or parent',
+  'supervisor.save': 'Save',
+  'supervisor.noteLabel': 'Teacher/parent note:',
+  'supervisor.flagDiagnosis': 'Flag diagnosis as wrong',
+  'supervisor.flagPlaceholder': 'What is wrong with this diagnosis?',
+  'supervisor.flaggedLabel': 'A teacher or parent flagged this diagnosis as wrong:',
+  'supervisor.removeFlag': 'Remove flag',
+  'supervisor.pinTitle': 'Enter the reviewer PIN',
+  'supervisor.pinIntro': 'Review mode is for teachers and parents.',
+  'supervisor.pinSetupTitle': 'Choose a reviewer PIN',
+  'supervisor.pinSetupIntro': 'Teachers and parents enter this PIN to open review mode, so students cannot change their own verdicts. It only guards this device and profile.',
+  'supervisor.pin': 'PIN',
+  'supervisor.pinConfirm': 'Repeat PIN',
+  'supervisor.pinSet': 'Set PIN',
+  'supervisor.unlock': 'Unlock',
+  'supervisor.pinTooShort': 'Use at least {min} characters.',
+  'supervisor.pinMismatch': 'The PINs do not match.',
+  'supervisor.pinWrong': 'Wrong PIN.',
+  'supervisor.lock': 'Lock',
+
+  'composer.equation': 'Equation editor',
+  'composer.sketch': 'Draw your working',
+  'composer.photo': 'Attach a photo of your work',
+
+  'equation.placeholder': 'Type LaTeX or use the buttons above, e.g. \\frac{1}{2}mv^2',
+  'equation.preview': 'Preview',
+  'equation.hint': 'Type / for a fraction and ^ for an exponent. Tab or the arrow keys move between boxes.',
+  'equation.editLatex': 'Edit as LaTeX',
+  'equation.hideLatex': 'Hide LaTeX',
+  'equation.insert': 'Insert',
+
+  'sketch.pen': 'Pen',
+  'sketch.eraser': 'Eraser',
+  'sketch.undo': 'Undo',
+  'sketch.clear': 'Clear',
+  'sketch.attach': 'Attach Drawing',
+
+  'hints.level1': 'Nudge',
+  'hints.level2': 'Definition',
+  'hints.level3': 'Worked Step',
+
+  'audio.recorded': 'Audio Recorded ({duration})',
+  'audio.delete': 'Delete Recording',
+  'audio.stop': 'Stop Recording ({duration} / {max})',
+  'audio.start': 'Explain via Voice',
+  'audio.micError': 'Could not access microphone. Please check permissions.',
+  'audio.processing': 'Preparing recording...',
+  'audio.tooLarge': 'The recording is too large. Please keep voice explanations shorter.',
+  'audio.playback': 'Play recording',
+
+  'errors.unexpected': 'An unexpected error occurred.',
+  'errors.CONFIGURATION': 'The tutor service is not set up yet. Please ask the site owner to configure the model API key.',
+  'errors.REQUEST_FAILED': 'Failed to {action}. Please check your connection and try again.',
+  'errors.RATE_LIMITED': 'Too many requests. Please wait a moment and try again.',
+  'errors.INVALID_RESPONSE': "The tutor's {result} came back incomplete. Please try again.",
+  'errors.UNSUPPORTED_MEDIA': 'The tutor cannot read this recording format, so it could not {action}. Please type your answer instead.',
+  'errors.action.diagnosis': 'diagnose homework',
+  'errors.action.feedback': 'evaluate answer',
+  'errors.action.review': 'prepare a review question',
+  'errors.action.hint': 'get a hint',
+  'errors.result.diagnosis': 'diagnosis',
+  'errors.result.feedback': 'feedback',
+  'errors.result.review': 'review question',
+  'errors.result.hint': 'hint',
+  'errors.action.transcription': 'transcribe the recording',
+  'errors.result.transcription': 'transcript',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,274 @@
+import { Messages } from './en';
+
+// Simplified Chinese UI catalog
+export const zhCN: Messages = {
+  'common.backToTutor': '返回辅导',
+  'common.topic': '主题',
+  'common.startNewAnalysis': '开始新的分析',
+  'common.cancel': '取消',
+
+  'nav.dueForReview': '待复习',
+  'nav.progress': '学习进度',
+  'nav.history': '历史记录',
+  'nav.supervisor': '老师与家长',
+
+  'settings.title': '语言',
+  'settings.interfaceLanguage': '界面语言',
+  'settings.tutorLanguage': '辅导语言',
+
+  'profile.title': '学习者档案',
+  'profile.defaultName': '我',
+  'profile.add': '添加学习者',
+  'profile.edit': '编辑档案',
+  'profile.name': '姓名',
+  'profile.gradeLevel': '年级',
+  'profile.gradeUnset': '未设置',
+  'profile.grade': '{number} 年级',
+  'profile.university': '大学',
+  'profile.save': '保存',
+
+  'history.title': '学习历史',
+  'history.clear': '清空历史',
+  'history.clearConfirm': '确定要清空全部历史记录吗？',
+  'history.empty': '暂无历史记录',
+  'history.emptyHint': '上传作业，开启你的学习之旅。',
+  'history.reviewBadge': '复习',
+  'history.masteredBadge': '已掌握',
+  'history.messageCount.one': '{count} 条消息',
+  'history.messageCount.other': '{count} 条消息',
+  'history.hintCount.one': '{count} 次提示',
+  'history.hintCount.other': '{count} 次提示',
+  'history.errorRank': '第 {rank} 处错误，共 {total} 处',
+  'history.matchCount': '{shown} / {total}',
+  'history.searchPlaceholder': '搜索主题、错误概念和解题思路',
+  'history.noMatches': '没有符合筛选条件的记录',
+  'history.filter.subject': '学科',
+  'history.filter.allSubjects': '全部学科',
+  'history.filter.outcome': '结果',
+  'history.filter.allOutcomes': '全部结果',
+  'history.filter.inProgress': '进行中',
+  'history.filter.tag': '标签',
+  'history.filter.allTags': '全部标签',
+  'history.filter.from': '从',
+  'history.filter.to': '至',
+  'history.filter.starred': '已加星标',
+  'history.filter.clear': '清除筛选',
+  'history.star': '加星标',
+  'history.unstar': '取消星标',
+  'history.addTag': '标签',
+  'history.tagPlaceholder': '新标签',
+  'history.removeTag': '移除标签 {tag}',
+  'history.delete': '删除',
+  'history.deleteConfirm': '确定删除这条记录吗？保存的作业页面和录音也会一并删除。',
+  'history.supervisorBadge': '老师批注',
+  'history.flaggedBadge': '已标记',
+
+  'review.title': '待复习',
+  'review.emptyTitle': '暂无需要复习的内容',
+  'review.emptyHint': '以前出错的知识点会按逐渐拉长的间隔回到这里。',
+  'review.dueToday': '今天到期',
+  'review.overdue.one': '已逾期 {count} 天',
+  'review.overdue.other': '已逾期 {count} 天',
+  'review.first': '首次复习',
+  'review.number': '第 {number} 次复习',
+  'review.start': '开始复习',
+  'review.sessionIntro': '这是对你之前觉得困难的知识点的第 {number} 次复习。',
+
+  'progress.title': '学习进度',
+  'progress.reset': '重置进度',
+  'progress.resetConfirm': '确定要重置全部学习进度数据吗？',
+  'progress.emptyTitle': '暂无进度数据',
+  'progress.emptyHint': '完成一次诊断后即可开始追踪你的知识点。',
+  'progress.concepts': '知识点',
+  'progress.averageMastery': '平均掌握度',
+  'progress.needsWork': '待加强',
+  'progress.weakConcepts': '薄弱知识点',
+  'progress.onTrack': '进展良好',
+  'progress.trendSteady': '持平',
+  'progress.trendImproving': '进步中',
+  'progress.trendSlipping': '有所下滑',
+  'progress.answers.one': '{count} 次练习作答',
+  'progress.answers.other': '{count} 次练习作答',
+  'progress.correctCount': '正确 {count}',
+  'progress.conceptErrorCount': '概念错误 {count}',
+  'progress.calculationErrorCount': '计算错误 {count}',
+
+  'upload.originalWork': '原始作业',
+  'upload.imageNotPreserved': '图片未保存',
+  'upload.change': '更换',
+  'upload.title': '上传作业',
+  'upload.subtitle': '点击或拖放 · 支持多页或 PDF',
+  'upload.invalidType': '文件格式无效，请上传 JPG、PNG、WebP、HEIC 图片或 PDF。',
+  'upload.tooLarge': '文件大小超过 {size}MB 限制，请上传更小的图片。',
+  'upload.tooManyPages': '每次提交最多可上传 {max} 页。',
+  'upload.missing': '请先上传你的作业图片。',
+  'upload.processing': '正在处理图片…',
+  'upload.processingFailed': '无法打开这张图片，请改用 JPG 或 PNG。',
+
+  'pages.page': '第 {number} 页',
+  'pages.alt': '作业第 {number} 页',
+  'pages.unavailable': '第 {number} 页已不在本设备上保存',
+  'pages.moveUp': '上移',
+  'pages.moveDown': '下移',
+  'pages.remove': '移除此页',
+  'pages.add': '添加页面',
+  'pages.edit': '裁剪与旋转',
+
+  'imageEditor.title': '调整第 {number} 页',
+  'imageEditor.loadFailed': '无法打开这张图片进行编辑。',
+  'imageEditor.rotateLeft': '向左旋转',
+  'imageEditor.rotateRight': '向右旋转',
+  'imageEditor.autoDeskew': '自动校正倾斜',
+  'imageEditor.reset': '重置',
+  'imageEditor.straighten': '校正角度（{degrees}°）',
+  'imageEditor.contrast': '对比度（{percent}%）',
+  'imageEditor.apply': '应用',
+
+  'diagnosis.title': '诊断',
+  'diagnosis.errorsFound.one': '发现 {count} 处错误',
+  'diagnosis.errorsFound.other': '发现 {count} 处错误',
+  'diagnosis.errorsHint': '从最重要的错误开始，逐个解决。',
+  'diagnosis.severity.MAJOR': '严重',
+  'diagnosis.severity.MODERATE': '中等',
+  'diagnosis.severity.MINOR': '轻微',
+
+  'input.thoughtProcess': '你的解题思路',
+  'input.thoughtPlaceholder': '我不太明白的地方是……',
+  'input.diagnosing': '诊断中……',
+  'input.startDiagnosis': '开始诊断',
+
+  'workspace.title': 'Omni-Tutor 工作区',
+  'workspace.hint': '上传你的作业，开始辅导。',
+
+  'chat.hintBadge': '提示 · {level}',
+  'chat.correct': '正确',
+  'chat.calculationCheck': '检查计算',
+  'chat.conceptCheck': '检查概念',
+  'chat.masteredTitle': '已掌握该知识点！',
+  'chat.masteredText': '你已解出本组练习中的全部题目。',
+  'chat.uploadNew': '上传新作业',
+  'chat.nextError': '下一处错误',
+  'chat.replyPlaceholder': '在这里输入你的下一步……',
+  'chat.audioResponse': '（语音回答）',
+  'chat.transcribing': '正在转写你的录音…',
+  'chat.transcriptLabel': '这是你录音的转写文本，发送前请修正听错的地方。',
+  'chat.hintTooltip': '获取提示（{level}）',
+  'chat.stuck': '我卡住了',
+  'chat.reply': '回复',
+  'chat.attachmentResponse': '（附上的解题过程）',
+  'chat.attachmentAlt': '附加的解题过程 {number}',
+  'chat.removeAttachment': '移除附件',
+  'chat.tooManyAttachments': '每条回复最多可附加 {max} 个文件。',
+
+  'ladder.progress': '第 {number} 题，共 {total} 题',
+  'ladder.questionTitle': '第 {number} 题 · 难度 {level}',
+  'ladder.stepUp': '做得好！来挑战一道更难的题：',
+  'ladder.stepDown': '我们先退一步，做一道更简单的题：',
+  'ladder.resume': '很好。现在回到刚才那道题：',
+
+  'report.export': '导出报告',
+  'report.markdown': 'Markdown (.md)',
+  'report.pdf': '打印 / 另存为 PDF',
+  'report.popupBlocked': '请允许本站弹出窗口以打印报告。',
+  'report.title': 'Omni-Tutor 学习报告',
+  'report.originalWork': '原始作业',
+  'report.imagesNotSaved': '本次记录未保存原始作业。',
+  'report.pdfPage': '第 {number} 页（PDF，未显示）',
+  'report.thoughtProcess': '学生的思路',
+  'report.problem': '题目',
+  'report.severity': '严重程度',
+  'report.page': '页码',
+  'report.errorStep': '出错步骤',
+  'report.practiceQuestions': '练习题',
+  'report.conversation': '辅导对话',
+  'report.student': '学生',
+  'report.tutor': '导师',
+  'report.attachments.one': '附有 {count} 张解题过程图片',
+  'report.attachments.other': '附有 {count} 张解题过程图片',
+  'report.outcome': '结果',
+  'report.mastered': '已掌握该概念',
+  'report.inProgress': '进行中：已解出 {solved}/{total} 道练习题',
+
+  'backup.export': '导出备份',
+  'backup.import': '导入备份',
+  'backup.imported': '备份已导入：新增 {added} 条，更新 {updated} 条，{unchanged} 条已是最新。',
+  'backup.skipped.one': '有 {count} 条记录无法读取，已跳过。',
+  'backup.skipped.other': '有 {count} 条记录无法读取，已跳过。',
+  'backup.invalidFile': '该文件不是 Omni-Tutor 的历史备份。',
+  'backup.newerVersion': '该备份由更新版本的 Omni-Tutor 创建，请更新应用后再导入。',
+
+  'supervisor.title': '查看 {name} 的学习记录',
+  'supervisor.intro': '此处的记录为只读。批注、修改的评判和标记都会显示给学生。',
+  'supervisor.empty': '{name} 还没有可查看的学习记录',
+  'supervisor.annotate': '添加批注',
+  'supervisor.editAnnotation': '编辑批注',
+  'supervisor.notePlaceholder': '给学生留下关于这条消息的批注',
+  'supervisor.override': '评判：',
+  'supervisor.keepVerdict': '保留导师的评判',
+  'supervisor.overriddenBy': '已由老师或家长修改',
+  'supervisor.save': '保存',
+  'supervisor.noteLabel': '老师/家长批注：',
+  'supervisor.flagDiagnosis': '标记诊断有误',
+  'supervisor.flagPlaceholder': '这个诊断哪里有问题？',
+  'supervisor.flaggedLabel': '老师或家长认为这个诊断有误：',
+  'supervisor.removeFlag': '取消标记',
+  'supervisor.pinTitle': '请输入审阅 PIN 码',
+  'supervisor.pinIntro': '审阅模式仅供老师和家长使用。',
+  'supervisor.pinSetupTitle': '设置审阅 PIN 码',
+  'supervisor.pinSetupIntro': '老师和家长需输入此 PIN 码才能进入审阅模式，以免学生修改自己的评判结果。PIN 码仅对本设备上的当前学习者有效。',
+  'supervisor.pin': 'PIN 码',
+  'supervisor.pinConfirm': '再次输入 PIN 码',
+  'supervisor.pinSet': '设置 PIN 码',
+  'supervisor.unlock': '解锁',
+  'supervisor.pinTooShort': '请至少输入 {min} 个字符。',
+  'supervisor.pinMismatch': '两次输入的 PIN 码不一致。',
+  'supervisor.pinWrong': 'PIN 码错误。',
+  'supervisor.lock': '锁定',
+
+  'composer.equation': '公式编辑器',
+  'composer.sketch': '手写解题过程',
+  'composer.photo': '附上解题过程的照片',
+
+  'equation.placeholder': '输入 LaTeX 或使用上方按钮，例如 \\frac{1}{2}mv^2',
+  'equation.preview': '预览',
+  'equation.hint': '输入 / 生成分数，输入 ^ 生成指数。按 Tab 键或方向键在各个输入框之间移动。',
+  'equation.editLatex': '以 LaTeX 编辑',
+  'equation.hideLatex': '隐藏 LaTeX',
+  'equation.insert': '插入',
+
+  'sketch.pen': '画笔',
+  'sketch.eraser': '橡皮擦',
+  'sketch.undo': '撤销',
+  'sketch.clear': '清空',
+  'sketch.attach': '附加手绘',
+
+  'hints.level1': '点拨',
+  'hints.level2': '定义',
+  'hints.level3': '示范步骤',
+
+  'audio.recorded': '已录音（{duration}）',
+  'audio.delete': '删除录音',
+  'audio.stop': '停止录音（{duration} / {max}）',
+  'audio.start': '用语音讲解',
+  'audio.micError': '无法访问麦克风，请检查权限设置。',
+  'audio.processing': '正在处理录音…',
+  'audio.tooLarge': '录音文件过大，请缩短语音讲解。',
+  'audio.playback': '播放录音',
+
+  'errors.unexpected': '发生了意外错误。',
+  'errors.CONFIGURATION': '辅导服务尚未配置，请联系网站管理员设置模型 API 密钥。',
+  'errors.REQUEST_FAILED': '无法{action}，请检查网络连接后重试。',
+  'errors.RATE_LIMITED': '请求过于频繁，请稍后再试。',
+  'errors.INVALID_RESPONSE': '导师返回的{result}不完整，请重试。',
+  'errors.UNSUPPORTED_MEDIA': '导师无法读取这种录音格式，因此无法{action}。请改为输入文字回答。',
+  'errors.action.diagnosis': '诊断作业',
+  'errors.action.feedback': '评估答案',
+  'errors.action.review': '生成复习题',
+  'errors.action.hint': '获取提示',
+  'errors.result.diagnosis': '诊断',
+  'errors.result.feedback': '反馈',
+  'errors.result.review': '复习题',
+  'errors.result.hint': '提示',
+  'errors.action.transcription': '转写录音',
+  'errors.result.transcription': '转写结果',
+};
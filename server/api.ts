@@ -0,0 +1,228 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { TutorErrorCode, TutorServiceError } from "../services/errors";
+import { TutorTask } from "../services/tutorProvider";
+import {
+  API_ROUTES,
+  ApiErrorBody,
+  AUDIO_LIMITS,
+  DiagnoseRequest,
+  EncodedMedia,
+  EvaluateRequest,
+  EvaluateStreamEvent,
+  HINT_LEVEL_NAMES,
+  HintRequest,
+  ReviewQuestionRequest,
+  SUPPORTED_AUDIO_TYPES,
+  TranscribeRequest,
+} from "../services/tutorApi";
+import { diagnoseHomework, evaluateResponse, createReviewQuestion, generateHint, transcribeAudio } from "../services/tutorEngine";
+import { RateLimiter } from "./rateLimiter";
+
+// Ten 10MB pages, base64-encoded, plus some headroom
+const MAX_BODY_BYTES = 150 * 1024 * 1024;
+
+class RequestBodyError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "RequestBodyError";
+    this.status = status;
+  }
+}
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RequestBodyError(413, "Request body is too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RequestBodyError(400, "Request body must be valid JSON.");
+  }
+};
+
+// Shallow shape checks, so a malformed body is a 400 rather than a TypeError in tutorEngine
+type FieldCheck = (value: unknown) => boolean;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString: FieldCheck = value => typeof value === "string";
+const isMedia: FieldCheck = value => isPlainObject(value) && isString(value.mimeType) && isString(value.data);
+const isOptionalMedia: FieldCheck = value => value === undefined || value === null || isMedia(value);
+const isMediaList: FieldCheck = value => Array.isArray(value) && value.every(isMedia);
+const isPreferences: FieldCheck = value => isPlainObject(value) && isString(value.language);
+const isPracticeContext: FieldCheck = value => isPlainObject(value) && isString(value.topic) && isString(value.question);
+const isChatHistory: FieldCheck = value =>
+  Array.isArray(value) && value.every(msg => isPlainObject(msg) && isString(msg.role) && isString(msg.content));
+
+interface TaskRequests {
+  diagnosis: DiagnoseRequest;
+  feedback: EvaluateRequest;
+  review: ReviewQuestionRequest;
+  hint: HintRequest;
+  transcription: TranscribeRequest;
+}
+
+const REQUEST_FIELDS: { [T in TutorTask]: { [K in keyof TaskRequests[T]]-?: FieldCheck } } = {
+  diagnosis: {
+    pages: value => isMediaList(value) && (value as unknown[]).length > 0,
+    textContext: value => value === undefined || isString(value),
+    audio: isOptionalMedia,
+    preferences: isPreferences,
+  },
+  feedback: {
+    practiceContext: isPracticeContext,
+    chatHistory: isChatHistory,
+    currentInput: isString,
+    audio: isOptionalMedia,
+    images: value => value === undefined || isMediaList(value),
+    preferences: isPreferences,
+  },
+  review: {
+    card: value =>
+      isPlainObject(value) && isString(value.topic) && isString(value.misconception) && typeof value.repetitions === "number",
+    previousQuestion: isString,
+    preferences: isPreferences,
+  },
+  hint: {
+    practiceContext: isPracticeContext,
+    chatHistory: isChatHistory,
+    level: value => typeof value === "number" && value in HINT_LEVEL_NAMES,
+    preferences: isPreferences,
+  },
+  transcription: {
+    audio: isMedia,
+    preferences: isPreferences,
+  },
+};
+
+// Voice recordings must be a format the providers accept and within the recorder's limits
+const checkAudio = (audio: EncodedMedia | null | undefined) => {
+  if (!audio) return;
+  if (!SUPPORTED_AUDIO_TYPES.includes(audio.mimeType)) {
+    throw new RequestBodyError(415, `Unsupported audio format: ${audio.mimeType}.`);
+  }
+  // base64 carries 3 bytes per 4 characters
+  if ((audio.data.length * 3) / 4 > AUDIO_LIMITS.maxBytes) {
+    throw new RequestBodyError(413, "Audio recording is too large.");
+  }
+};
+
+const readRequest = <T extends TutorTask>(task: T, body: unknown): TaskRequests[T] => {
+  if (!isPlainObject(body)) throw new RequestBodyError(400, "Request body must be a JSON object.");
+  for (const [field, isValid] of Object.entries<FieldCheck>(REQUEST_FIELDS[task])) {
+    if (!isValid(body[field])) throw new RequestBodyError(400, `Missing or invalid "${field}" in request body.`);
+  }
+  checkAudio(body.audio as EncodedMedia | null | undefined);
+  return body as unknown as TaskRequests[T];
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const ERROR_STATUS: Partial<Record<TutorErrorCode, number>> = {
+  INVALID_RESPONSE: 502,
+  CONFIGURATION: 500,
+  UNSUPPORTED_MEDIA: 415,
+};
+
+const toErrorBody = (task: TutorTask, error: unknown): { status: number; body: ApiErrorBody } => {
+  if (error instanceof RequestBodyError) {
+    return { status: error.status, body: { code: "REQUEST_FAILED", task, message: error.message } };
+  }
+  if (error instanceof TutorServiceError) {
+    const status = ERROR_STATUS[error.code] ?? 503;
+    return { status, body: { code: error.code, task: error.task, message: error.message } };
+  }
+  console.error(`Unexpected ${task} error:`, error);
+  return { status: 500, body: { code: "REQUEST_FAILED", task, message: "The tutor service hit an unexpected error." } };
+};
+
+// Client identity for rate limiting; trusts X-Forwarded-For only when told it sits behind a proxy
+const getClientKey = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string" && forwarded) {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const ROUTE_TASKS: Record<string, TutorTask> = {
+  [API_ROUTES.diagnose]: "diagnosis",
+  [API_ROUTES.evaluate]: "feedback",
+  [API_ROUTES.review]: "review",
+  [API_ROUTES.hint]: "hint",
+  [API_ROUTES.transcribe]: "transcription",
+};
+
+// Streams evaluation progress as NDJSON; errors after the headers are sent become an event
+const streamEvaluation = async (res: ServerResponse, request: EvaluateRequest) => {
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  const send = (event: EvaluateStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  try {
+    const data = await evaluateResponse(request, text => send({ type: "partial", text }));
+    send({ type: "result", data });
+  } catch (error) {
+    send({ type: "error", error: toErrorBody("feedback", error).body });
+  }
+  res.end();
+};
+
+export interface ApiHandlerOptions {
+  rateLimiter: RateLimiter;
+  trustProxy?: boolean;
+}
+
+// Handles /api/* requests; returns false for anything else so the caller can 404 or fall through
+export const createApiHandler = ({ rateLimiter, trustProxy = false }: ApiHandlerOptions) =>
+  async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const task = ROUTE_TASKS[url.pathname];
+    if (!task) return false;
+
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" });
+      res.end();
+      return true;
+    }
+
+    const decision = rateLimiter.take(getClientKey(req, trustProxy));
+    if (!decision.allowed) {
+      res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+      sendJson(res, 429, {
+        error: { code: "RATE_LIMITED", task, message: "Too many requests. Please wait a moment and try again." },
+      });
+      return true;
+    }
+
+    try {
+      const body = await readJsonBody(req);
+      if (task === "feedback" && url.searchParams.get("stream") === "1") {
+        await streamEvaluation(res, readRequest("feedback", body));
+      } else if (task === "diagnosis") {
+        sendJson(res, 200, await diagnoseHomework(readRequest("diagnosis", body)));
+      } else if (task === "feedback") {
+        sendJson(res, 200, await evaluateResponse(readRequest("feedback", body)));
+      } else if (task === "hint") {
+        sendJson(res, 200, await generateHint(readRequest("hint", body)));
+      } else if (task === "transcription") {
+        sendJson(res, 200, await transcribeAudio(readRequest("transcription", body)));
+      } else {
+        sendJson(res, 200, await createReviewQuestion(readRequest("review", body)));
+      }
+    } catch (error) {
+      const { status, body } = toErrorBody(task, error);
+      if (!res.headersSent) sendJson(res, status, { error: body });
+      else res.end();
+    }
+    return true;
+  };
@@ -0,0 +1,33 @@
+import { createServer } from "node:http";
+import { existsSync } from "node:fs";
+import { createApiHandler } from "./api";
+import { createRateLimiter } from "./rateLimiter";
+
+// Standalone API server. `npm run dev` starts it next to Vite, which proxies /api here.
+
+for (const envFile of [".env", ".env.local"]) {
+  if (existsSync(envFile)) process.loadEnvFile(envFile);
+}
+
+const port = Number(process.env.API_PORT) || 3001;
+const rateLimiter = createRateLimiter({
+  capacity: Number(process.env.RATE_LIMIT_BURST) || 10,
+  refillPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20,
+});
+const handleApi = createApiHandler({
+  rateLimiter,
+  trustProxy: process.env.TRUST_PROXY === "true",
+});
+
+const server = createServer(async (req, res) => {
+  if (!(await handleApi(req, res))) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message: "Not found." } }));
+  }
+});
+
+setInterval(() => rateLimiter.prune(), 5 * 60_000).unref();
+
+server.listen(port, () => {
+  console.log(`Omni-Tutor API listening on http://localhost:${port} (provider: ${process.env.TUTOR_PROVIDER || "gemini"})`);
+});
@@ -0,0 +1,47 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimiterOptions {
+  // Requests a client may burst before being throttled
+  capacity: number;
+  // Sustained requests allowed per minute
+  refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// In-memory token bucket per client key (IP address)
+export const createRateLimiter = ({ capacity, refillPerMinute }: RateLimiterOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const take = (clientKey: string, now = Date.now()): RateLimitDecision => {
+    const bucket = buckets.get(clientKey) ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+    if (tokens < 1) {
+      buckets.set(clientKey, { tokens, updatedAt: now });
+      return { allowed: false, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+    }
+    buckets.set(clientKey, { tokens: tokens - 1, updatedAt: now });
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+
+  // Forget clients whose buckets have refilled, so the map does not grow unbounded
+  const prune = (now = Date.now()) => {
+    for (const [clientKey, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= capacity) {
+        buckets.delete(clientKey);
+      }
+    }
+  };
+
+  return { take, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,86 @@
+import { AUDIO_LIMITS } from "./tutorApi";
+
+// Browser-side audio pipeline: pick a recorder format, then transcode the
+// recording to 16 kHz mono WAV so the model receives a format it understands.
+
+const TARGET_SAMPLE_RATE = 16000;
+
+const RECORDER_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4", "audio/webm"];
+
+export class AudioLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioLimitError";
+  }
+}
+
+// First container the browser's MediaRecorder can produce; undefined lets the browser choose
+export const pickRecorderMimeType = (): string | undefined =>
+  RECORDER_TYPES.find(type => typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(type));
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export const baseMimeType = (type: string) => type.split(";")[0].trim().toLowerCase();
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+};
+
+// 16-bit PCM WAV from a single channel of float samples
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+};
+
+const transcodeToWav = async (recording: Blob): Promise<Blob> => {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await recording.arrayBuffer());
+    const length = Math.ceil(decoded.duration * TARGET_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, length, TARGET_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return encodeWav(rendered.getChannelData(0), TARGET_SAMPLE_RATE);
+  } finally {
+    context.close();
+  }
+};
+
+// Turns a raw MediaRecorder blob into what gets submitted. Falls back to the
+// original container (labeled with its real type) when the browser cannot decode it.
+export const prepareRecording = async (recording: Blob): Promise<Blob> => {
+  let prepared: Blob;
+  try {
+    prepared = await transcodeToWav(recording);
+  } catch (error) {
+    console.warn("Could not transcode recording, sending it as recorded", error);
+    prepared = recording;
+  }
+
+  if (prepared.size > AUDIO_LIMITS.maxBytes) {
+    throw new AudioLimitError("Recording is too large.");
+  }
+  return prepared;
+};
@@ -0,0 +1,289 @@
+import {
+  ChatMessage,
+  ErrorBox,
+  HistoryItem,
+  MessageAnnotation,
+  MessageAttachment,
+  PracticeProgress,
+  PracticeQuestion,
+  SupervisorFeedback,
+} from "../types";
+import { getHistory, getMediaRefs, putHistoryItems } from "./historyService";
+import { isMediaRef, loadMedia, putMedia } from "./mediaService";
+import { addTag } from "./historyFilterService";
+import { EVALUATIONS } from "./supervisorService";
+import { base64ToBlob, blobToGenerativePart, downloadBlob } from "./utils";
+
+// Versioned JSON backup of the learning history, for moving it between devices.
+// Version 0 is a bare array of items, as kept under the original localStorage key.
+
+const BACKUP_FORMAT = "omni-tutor-history";
+export const BACKUP_VERSION = 1;
+
+interface BackupMedia {
+  ref: string;
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface HistoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: HistoryItem[];
+  media: BackupMedia[];
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number; // Sessions that failed validation
+}
+
+export class BackupFormatError extends Error {
+  // Set when the file is a backup from a newer version of the app
+  readonly version?: number;
+
+  constructor(message: string, version?: number) {
+    super(message);
+    this.name = "BackupFormatError";
+    this.version = version;
+  }
+}
+
+// Upgrades a backup of `version` to the next version
+const MIGRATIONS: Record<number, (backup: unknown) => unknown> = {
+  0: items => ({ format: BACKUP_FORMAT, version: 1, exportedAt: Date.now(), sessions: items, media: [] }),
+};
+
+// Type guards for reading a backup; every field a session may carry is checked,
+// since whatever is imported is later rendered without further checks
+type Guard<T> = (value: unknown) => value is T;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const isOneOf = <T extends string | number>(options: readonly T[]) =>
+  (value: unknown): value is T => options.includes(value as T);
+
+const isArrayOf = <T>(isItem: Guard<T>) =>
+  (value: unknown): value is T[] => Array.isArray(value) && value.every(isItem);
+
+const isOptional = <T>(isValue: Guard<T>) =>
+  (value: unknown): value is T | undefined => value === undefined || isValue(value);
+
+const isStoredMediaRef = (value: unknown): value is string => isString(value) && isMediaRef(value);
+
+const isPracticeQuestion = (value: unknown): value is PracticeQuestion =>
+  isObject(value) &&
+  isString(value.topic) &&
+  isString(value.question_text) &&
+  isOptional(isString)(value.subject) &&
+  isOptional(isNumber)(value.difficulty);
+
+const isErrorBox = (value: unknown): value is ErrorBox =>
+  isObject(value) && isNumber(value.ymin) && isNumber(value.xmin) && isNumber(value.ymax) && isNumber(value.xmax);
+
+const isAttachment = (value: unknown): value is MessageAttachment =>
+  isObject(value) && isString(value.url) && isString(value.mimeType) && isOptional(isString)(value.name);
+
+const isMessage = (value: unknown): value is ChatMessage =>
+  isObject(value) &&
+  isOneOf(["user", "tutor"])(value.role) &&
+  isString(value.content) &&
+  isNumber(value.timestamp) &&
+  isOptional(isString)(value.audioUrl) &&
+  isOptional(isArrayOf(isAttachment))(value.attachments) &&
+  isOptional(isOneOf(["CORRECT", "CONCEPT_ERROR", "CALCULATION_ERROR", "INFO", "HINT"]))(value.feedbackType) &&
+  isOptional(isOneOf([1, 2, 3]))(value.hintLevel) &&
+  isOptional(isIndex)(value.questionIndex);
+
+const isPracticeProgress = (value: unknown): value is PracticeProgress =>
+  isObject(value) && isIndex(value.current) && isArrayOf(isBoolean)(value.passed);
+
+const isAnnotation = (value: unknown): value is MessageAnnotation =>
+  isObject(value) &&
+  isIndex(value.message_index) &&
+  isOptional(isString)(value.note) &&
+  isOptional(isOneOf(EVALUATIONS))(value.evaluation_override) &&
+  isNumber(value.updated_at);
+
+const isSupervisorFeedback = (value: unknown): value is SupervisorFeedback =>
+  isObject(value) &&
+  isArrayOf(isAnnotation)(value.annotations) &&
+  isOptional((flag: unknown): flag is SupervisorFeedback["diagnosis_flag"] =>
+    isObject(flag) && isString(flag.note) && isNumber(flag.flagged_at)
+  )(value.diagnosis_flag);
+
+const isSession = (value: unknown): value is HistoryItem =>
+  isObject(value) &&
+  isString(value.id) && value.id !== "" &&
+  isNumber(value.timestamp) &&
+  isString(value.conceptual_misunderstanding) &&
+  isString(value.tutor_feedback) &&
+  isString(value.next_instruction) &&
+  isPracticeQuestion(value.new_practice_question) &&
+  isOptional(isArrayOf(isPracticeQuestion))(value.practice_questions) &&
+  isOptional(isOneOf(["MAJOR", "MODERATE", "MINOR"]))(value.severity) &&
+  isOptional(isIndex)(value.error_page) &&
+  isOptional(isErrorBox)(value.error_box) &&
+  ["problem", "error_step", "diagnosed_error_step", "status", "user_context", "submission_id", "review_of"]
+    .every(key => isOptional(isString)(value[key])) &&
+  isOptional(isArrayOf(isMessage))(value.chat_history) &&
+  isOptional(isBoolean)(value.mastery_achieved) &&
+  isOptional(isPracticeProgress)(value.practice_progress) &&
+  isOptional(isArrayOf(isStoredMediaRef))(value.page_media) &&
+  isOptional(isNumber)(value.error_rank) &&
+  isOptional(isArrayOf(isString))(value.tags) &&
+  isOptional(isBoolean)(value.starred) &&
+  isOptional(isSupervisorFeedback)(value.supervisor_feedback);
+
+const isBackupMedia = (value: unknown): value is BackupMedia =>
+  isObject(value) && isStoredMediaRef(value.ref) && isString(value.mimeType) && isString(value.data);
+
+const isVersionedBackup = (value: unknown): value is Record<string, unknown> & { version: number } =>
+  isObject(value) && value.format === BACKUP_FORMAT && Number.isInteger(value.version);
+
+// Object URLs from the exporting page cannot be resolved here
+const withoutObjectUrls = (item: HistoryItem): HistoryItem => ({
+  ...item,
+  chat_history: item.chat_history?.map(({ audioUrl, attachments, ...msg }) => {
+    const keptAttachments = attachments?.filter(attachment => !attachment.url?.startsWith("blob:"));
+    return {
+      ...msg,
+      ...(audioUrl && !audioUrl.startsWith("blob:") ? { audioUrl } : {}),
+      ...(keptAttachments?.length ? { attachments: keptAttachments } : {}),
+    };
+  }),
+});
+
+// Parses and upgrades a backup file; throws BackupFormatError if it is not one this version can read
+// Sessions and media are only checked item by item, on import
+export const parseBackup = (text: string): HistoryBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("Backup is not valid JSON");
+  }
+  const stored = Array.isArray(parsed) ? MIGRATIONS[0](parsed) : parsed;
+  if (!isVersionedBackup(stored)) {
+    throw new BackupFormatError("Not an Omni-Tutor history backup");
+  }
+  let backup = stored;
+  if (backup.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Backup version ${backup.version} is newer than ${BACKUP_VERSION}`, backup.version);
+  }
+  while (backup.version < BACKUP_VERSION) {
+    const upgraded = MIGRATIONS[backup.version]?.(backup);
+    if (!isVersionedBackup(upgraded)) {
+      throw new BackupFormatError(`Backup version ${backup.version} cannot be upgraded`);
+    }
+    backup = upgraded;
+  }
+  if (!Array.isArray(backup.sessions)) {
+    throw new BackupFormatError("Backup has no sessions");
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: backup.version,
+    exportedAt: isNumber(backup.exportedAt) ? backup.exportedAt : Date.now(),
+    sessions: backup.sessions,
+    media: Array.isArray(backup.media) ? backup.media : [],
+  };
+};
+
+// How far a session got; transcripts only grow, so the longer one is the later copy
+const isFurtherAlong = (item: HistoryItem, other: HistoryItem) => {
+  if (!!item.mastery_achieved !== !!other.mastery_achieved) return !!item.mastery_achieved;
+  return (item.chat_history?.length ?? 0) > (other.chat_history?.length ?? 0);
+};
+
+// The same session on both devices: the copy that got further wins, keeping stars, tags and feedback from either
+const mergeSession = (local: HistoryItem, incoming: HistoryItem): HistoryItem => {
+  const [winner, other] = isFurtherAlong(incoming, local) ? [incoming, local] : [local, incoming];
+  const tags = (other.tags ?? []).reduce((merged, tag) => addTag(merged, tag), winner.tags ?? []);
+  const starred = !!(winner.starred || other.starred);
+  return {
+    ...winner,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(starred ? { starred } : {}),
+    ...(!winner.page_media && other.page_media ? { page_media: other.page_media } : {}),
+    ...(!winner.supervisor_feedback && other.supervisor_feedback ? { supervisor_feedback: other.supervisor_feedback } : {}),
+  };
+};
+
+export const createBackup = async (): Promise<HistoryBackup> => {
+  const sessions = getHistory();
+  const refs = [...new Set(sessions.flatMap(getMediaRefs))];
+  const media = await Promise.all(refs.map(async (ref): Promise<BackupMedia | null> => {
+    const blob = await loadMedia(ref);
+    return blob && { ref, mimeType: blob.type, data: await blobToGenerativePart(blob) };
+  }));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+    media: media.filter(Boolean),
+  };
+};
+
+export const downloadBackup = (backup: HistoryBackup) =>
+  downloadBlob(
+    new Blob([JSON.stringify(backup)], { type: "application/json" }),
+    `omni-tutor-backup-${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`
+  );
+
+// Merges a backup into the history by session id; invalid sessions are skipped, not fatal
+export const importBackup = (backup: HistoryBackup): ImportSummary => {
+  const localById = new Map(getHistory().map(item => [item.id, item]));
+  const changed = new Map<string, HistoryItem>();
+  const summary: ImportSummary = { added: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+  for (const value of backup.sessions) {
+    if (!isSession(value)) {
+      summary.skipped++;
+      continue;
+    }
+    const incoming = withoutObjectUrls(value);
+    // Repeats within the file merge like conflicts with local sessions
+    const current = changed.get(incoming.id) ?? localById.get(incoming.id);
+    if (!current) {
+      changed.set(incoming.id, incoming);
+      summary.added++;
+      continue;
+    }
+    const merged = mergeSession(current, incoming);
+    if (JSON.stringify(merged) === JSON.stringify(current)) {
+      summary.unchanged++;
+    } else {
+      changed.set(merged.id, merged);
+      summary.updated++;
+    }
+  }
+
+  const items = [...changed.values()];
+  putHistoryItems(items);
+  // Only media the imported sessions refer to
+  const usedRefs = new Set(items.flatMap(getMediaRefs));
+  backup.media.filter(isBackupMedia).forEach(media => {
+    if (!usedRefs.has(media.ref)) return;
+    try {
+      putMedia(media.ref, base64ToBlob(media.data, media.mimeType));
+    } catch (e) {
+      // Sessions still open without it, like after eviction
+      console.error("Skipping corrupt media in backup", e);
+    }
+  });
+  return summary;
+};
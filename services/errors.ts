@@ -0,0 +1,54 @@
+import { TutorTask } from "./tutorProvider";
+
+export type TutorErrorCode =
+  | "CONFIGURATION"     // Provider cannot run (e.g. missing API key)
+  | "REQUEST_FAILED"    // Network or provider-side failure
+  | "RATE_LIMITED"      // Too many requests from this client
+  | "UNSUPPORTED_MEDIA" // Provider cannot read an attached file or recording format
+  | "INVALID_RESPONSE"; // Model replied, but not with usable JSON
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Wording for user-facing messages, per task
+const TASK_WORDING: Record<TutorTask, { action: string; result: string }> = {
+  diagnosis: { action: "diagnose homework", result: "diagnosis" },
+  feedback: { action: "evaluate answer", result: "feedback" },
+  review: { action: "prepare a review question", result: "review question" },
+  hint: { action: "get a hint", result: "hint" },
+  transcription: { action: "transcribe the recording", result: "transcript" },
+};
+
+export const requestFailedMessage = (task: TutorTask) =>
+  `Failed to ${TASK_WORDING[task].action}. Please check your connection and try again.`;
+
+export class TutorServiceError extends Error {
+  readonly code: TutorErrorCode;
+  readonly task: TutorTask;
+
+  constructor(code: TutorErrorCode, task: TutorTask, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "TutorServiceError";
+    this.code = code;
+    this.task = task;
+  }
+}
+
+// Raised once repair and retries are exhausted; keeps the last reply for debugging
+export class InvalidModelResponseError extends TutorServiceError {
+  readonly issues: SchemaIssue[];
+  readonly rawText: string;
+
+  constructor(task: TutorTask, issues: SchemaIssue[], rawText: string) {
+    super(
+      "INVALID_RESPONSE",
+      task,
+      `The tutor's ${TASK_WORDING[task].result} came back incomplete. Please try again.`
+    );
+    this.name = "InvalidModelResponseError";
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
@@ -0,0 +1,168 @@
+import { DiagnosisReport, FeedbackResult, ReviewQuestion, HintResult, TranscriptResult } from "../types";
+import { TutorProvider, TutorTask } from "./tutorProvider";
+
+// Canned replies per task; a list is played back in order, repeating the last entry
+export type TutorFixtures = Record<TutorTask, object | object[]>;
+
+export const defaultFixtures: TutorFixtures = {
+  diagnosis: {
+    stage: "INITIAL_DIAGNOSIS",
+    errors: [
+      {
+        stage: "INITIAL_DIAGNOSIS",
+        problem: "Q2",
+        severity: "MAJOR",
+        conceptual_misunderstanding:
+          "The student treated velocity and acceleration as the same quantity, using the final speed where the rate of change of speed was needed.",
+        new_practice_question: {
+          subject: "Physics",
+          topic: "Uniform Acceleration",
+          question_text:
+            "A cart starts from rest and reaches 12 m/s after 4 s. What is its acceleration, and how far does it travel in those 4 s?",
+          difficulty: 2,
+        },
+        practice_questions: [
+          {
+            subject: "Physics",
+            topic: "Uniform Acceleration",
+            question_text: "A ball starts from rest and reaches 6 m/s after 2 s. What is its acceleration?",
+            difficulty: 1,
+          },
+          {
+            subject: "Physics",
+            topic: "Uniform Acceleration",
+            question_text:
+              "A cart starts from rest and reaches 12 m/s after 4 s. What is its acceleration, and how far does it travel in those 4 s?",
+            difficulty: 2,
+          },
+          {
+            subject: "Physics",
+            topic: "Uniform Acceleration",
+            question_text:
+              "A train slows from 30 m/s to 10 m/s over 400 m. What is its acceleration, and how long does the braking take?",
+            difficulty: 3,
+          },
+        ],
+        tutor_feedback:
+          "You set up the motion equations neatly. Look again at what acceleration actually measures compared with speed.",
+        next_instruction: "What is the first quantity you would calculate, and which formula would you use?",
+        error_page: 1,
+        error_step: "a = v / t = 12 m/s",
+        error_box: { ymin: 420, xmin: 90, ymax: 500, xmax: 760 },
+      },
+      {
+        stage: "INITIAL_DIAGNOSIS",
+        problem: "Q3",
+        severity: "MINOR",
+        conceptual_misunderstanding:
+          "The student dropped the units partway through, writing the distance as 24 instead of 24 m.",
+        new_practice_question: {
+          subject: "Physics",
+          topic: "Units in Kinematics",
+          question_text: "A runner keeps a steady 5 m/s for 8 s. How far does the runner go? Give your answer with units.",
+          difficulty: 2,
+        },
+        practice_questions: [
+          {
+            subject: "Physics",
+            topic: "Units in Kinematics",
+            question_text: "What are the units of speed multiplied by time?",
+            difficulty: 1,
+          },
+          {
+            subject: "Physics",
+            topic: "Units in Kinematics",
+            question_text: "A runner keeps a steady 5 m/s for 8 s. How far does the runner go? Give your answer with units.",
+            difficulty: 2,
+          },
+          {
+            subject: "Physics",
+            topic: "Units in Kinematics",
+            question_text: "A car travels at 72 km/h for 30 s. How far does it go, in metres?",
+            difficulty: 3,
+          },
+        ],
+        tutor_feedback: "Your arithmetic on Q3 is right; the answer just needs to say what it measures.",
+        next_instruction: "Which units do you get when you multiply m/s by s?",
+        error_page: 1,
+        error_step: "s = 24",
+        error_box: { ymin: 640, xmin: 90, ymax: 700, xmax: 420 },
+      },
+    ],
+  } satisfies DiagnosisReport,
+  feedback: [
+    {
+      stage: "CONVERSATIONAL_FEEDBACK",
+      feedback_message: "Careful: 12 m/s is how fast the cart is going, not how quickly its speed changes.",
+      next_instruction: "How much does the speed change each second?",
+      evaluation_result: "CONCEPT_ERROR",
+      dialogue_action: "CONTINUE",
+    },
+    {
+      stage: "CONVERSATIONAL_FEEDBACK",
+      feedback_message: "The idea is right, but check your division.",
+      next_instruction: "Recompute the change in speed divided by the time taken.",
+      evaluation_result: "CALCULATION_ERROR",
+      dialogue_action: "CONTINUE",
+    },
+    {
+      stage: "CONVERSATIONAL_FEEDBACK",
+      feedback_message: "Exactly: 3 m/s², and the cart covers 24 m.",
+      next_instruction: "Great work. You can upload another problem whenever you're ready.",
+      evaluation_result: "CORRECT",
+      dialogue_action: "MASTERY_ACHIEVED",
+    },
+  ] satisfies FeedbackResult[],
+  review: {
+    topic: "Uniform Acceleration",
+    question_text:
+      "A cyclist speeds up from 2 m/s to 10 m/s in 4 s. What is the acceleration? Explain why it is not 10 m/s².",
+    next_instruction: "Start by working out how much the speed changed.",
+  } satisfies ReviewQuestion,
+  hint: [
+    { hint_text: "Think about what acceleration measures: is it a speed, or how a speed changes?" },
+    { hint_text: "Acceleration is the change in velocity divided by the time taken: $a = \\frac{\\Delta v}{\\Delta t}$." },
+    {
+      hint_text:
+        "Example: a ball goes from 0 to 6 m/s in 2 s, so Δv = 6 m/s and a = 6 / 2 = 3 m/s². Try the same steps with the cart.",
+    },
+  ] satisfies HintResult[],
+  transcription: {
+    transcript: "First I work out the acceleration: the speed changes by 12 m/s in 4 s, so a = 12 / 4 = 3 m/s².",
+  } satisfies TranscriptResult,
+};
+
+const STREAM_CHUNK_SIZE = 8;
+
+// Deterministic provider for offline demos and tests: ignores the prompt, replays fixtures.
+// Streaming emits the same reply in fixed-size chunks, `streamDelayMs` apart.
+export const createFixtureProvider = (
+  fixtures: TutorFixtures = defaultFixtures,
+  streamDelayMs = 20
+): TutorProvider => {
+  const calls: Partial<Record<TutorTask, number>> = {};
+
+  const nextReply = (task: TutorTask) => {
+    const entry = fixtures[task];
+    const replies = Array.isArray(entry) ? entry : [entry];
+    if (replies.length === 0) throw new Error(`No fixture defined for "${task}".`);
+
+    const callCount = calls[task] ?? 0;
+    const reply = replies[Math.min(callCount, replies.length - 1)];
+    calls[task] = callCount + 1;
+    return JSON.stringify(reply);
+  };
+
+  return {
+    name: "fixture",
+    generateStructured: async ({ task }) => nextReply(task),
+    streamStructured: async ({ task }, onText) => {
+      const textResponse = nextReply(task);
+      for (let end = STREAM_CHUNK_SIZE; end < textResponse.length + STREAM_CHUNK_SIZE; end += STREAM_CHUNK_SIZE) {
+        if (streamDelayMs > 0) await new Promise(resolve => setTimeout(resolve, streamDelayMs));
+        onText(textResponse.slice(0, end));
+      }
+      return textResponse;
+    },
+  };
+};
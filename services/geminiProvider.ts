@@ -0,0 +1,59 @@
+import { GoogleGenAI } from "@google/genai";
+import { TutorProvider, TutorTask } from "./tutorProvider";
+import { TutorServiceError } from "./errors";
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model }: GeminiProviderOptions): TutorProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (task: TutorTask) => {
+    if (!apiKey) {
+      throw new TutorServiceError("CONFIGURATION", task, "API Key is missing. Please set GEMINI_API_KEY for the API server.");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  return {
+    name: "gemini",
+    generateStructured: async ({ task, parts, schema }) => {
+      const response = await getClient(task).models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
+      });
+
+      const textResponse = response.text;
+      if (!textResponse) throw new Error("No response from Gemini.");
+      return textResponse;
+    },
+    streamStructured: async ({ task, parts, schema }, onText) => {
+      const stream = await getClient(task).models.generateContentStream({
+        model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
+      });
+
+      let textResponse = "";
+      for await (const chunk of stream) {
+        if (!chunk.text) continue;
+        textResponse += chunk.text;
+        onText(textResponse);
+      }
+      if (!textResponse) throw new Error("No response from Gemini.");
+      return textResponse;
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { HistoryItem } from "../types";
+
+// Search, filters and tag handling for the history view
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TAG_LENGTH = 32;
+
+export type HistoryOutcome = "all" | "mastered" | "in_progress";
+
+export interface HistoryFilter {
+  query: string;
+  subject: string; // Empty for every subject
+  tag: string; // Empty for every tag
+  from: string; // Local dates as YYYY-MM-DD, inclusive; empty for no bound
+  to: string;
+  outcome: HistoryOutcome;
+  starredOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: "",
+  subject: "",
+  tag: "",
+  from: "",
+  to: "",
+  outcome: "all",
+  starredOnly: false,
+};
+
+export const isHistoryFiltered = (filter: HistoryFilter) =>
+  filter.query.trim() !== "" || !!filter.subject || !!filter.tag || !!filter.from || !!filter.to ||
+  filter.outcome !== "all" || filter.starredOnly;
+
+const fold = (text: string) => text.trim().toLowerCase();
+
+// Collapses whitespace and caps the length; empty when nothing is left
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+
+// Adds a tag unless the item already has it, ignoring case
+export const addTag = (tags: string[] = [], tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.some(existing => fold(existing) === fold(normalized))) return tags;
+  return [...tags, normalized];
+};
+
+export const getItemSubject = (item: HistoryItem) => item.new_practice_question.subject?.trim() || "";
+
+// Distinct values across the history, ignoring case; the first spelling seen wins
+const distinct = (values: string[]) => {
+  const byKey = new Map<string, string>();
+  values.filter(Boolean).forEach(value => {
+    if (!byKey.has(fold(value))) byKey.set(fold(value), value);
+  });
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+};
+
+export const getHistorySubjects = (history: HistoryItem[]) => distinct(history.map(getItemSubject));
+
+export const getHistoryTags = (history: HistoryItem[]) => distinct(history.flatMap(item => item.tags ?? []));
+
+const searchableText = (item: HistoryItem) =>
+  fold([
+    item.new_practice_question.topic,
+    getItemSubject(item),
+    item.problem,
+    item.conceptual_misunderstanding,
+    item.user_context,
+    ...(item.tags ?? []),
+  ].filter(Boolean).join("\n"));
+
+// Start of a local calendar day
+const parseDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+// Items matching every part of the filter; each search word must appear somewhere.
+// Starred items come first, otherwise the history's newest-first order is kept.
+export const filterHistory = (history: HistoryItem[], filter: HistoryFilter): HistoryItem[] => {
+  const words = fold(filter.query).split(/\s+/).filter(Boolean);
+  const from = filter.from ? parseDay(filter.from) : -Infinity;
+  const to = filter.to ? parseDay(filter.to) + DAY_MS : Infinity;
+
+  const matches = history.filter(item => {
+    if (filter.starredOnly && !item.starred) return false;
+    if (filter.subject && fold(getItemSubject(item)) !== fold(filter.subject)) return false;
+    if (filter.tag && !(item.tags ?? []).some(tag => fold(tag) === fold(filter.tag))) return false;
+    if (item.timestamp < from || item.timestamp >= to) return false;
+    if (filter.outcome === "mastered" && !item.mastery_achieved) return false;
+    if (filter.outcome === "in_progress" && item.mastery_achieved) return false;
+    if (words.length > 0) {
+      const text = searchableText(item);
+      if (!words.every(word => text.includes(word))) return false;
+    }
+    return true;
+  });
+
+  return [...matches.filter(item => item.starred), ...matches.filter(item => !item.starred)];
+};
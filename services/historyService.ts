@@ -1,10 +1,38 @@
-import { AnalysisResult, HistoryItem } from "../types";
+import { AnalysisResult, ChatMessage, HistoryItem, PracticeProgress } from "../types";
+import {
+  SESSION_STORE,
+  MEDIA_STORE,
+  clearStores,
+  getAllRecords,
+  getStorageUsage,
+  requestPersistentStorage,
+  setEvictionPolicy,
+  withQuotaRetry,
+  writeRecords,
+} from "./storageService";
+import { deleteMedia, getMediaSizes, isMediaRef, toStoredUrl, waitForMediaWrites } from "./mediaService";
+import { profileKey } from "./profileService";
+
+// Sessions live in IndexedDB and are mirrored in memory, so reads stay synchronous.
+// Both are per learner profile; initHistory reloads after a switch.
+// Without IndexedDB, history falls back to the original localStorage key, without media.
 
 const HISTORY_KEY = "omni_tutor_history";
+const LOCAL_STORAGE_LIMIT = 50;
+
+// Eviction policy: the oldest sessions go past MAX_SESSIONS; past the media budget or
+// MAX_STORAGE_USAGE of the origin quota, the oldest sessions lose their media but keep their text
+const MAX_SESSIONS = 500;
+const MAX_MEDIA_BYTES = 250 * 1024 * 1024;
+const MAX_STORAGE_USAGE = 0.8;
 
-export const getHistory = (): HistoryItem[] => {
+let sessions: HistoryItem[] = []; // Newest first
+let useIndexedDb = false;
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+const readLocalHistory = (): HistoryItem[] => {
   try {
-    const stored = localStorage.getItem(HISTORY_KEY);
+    const stored = localStorage.getItem(profileKey(HISTORY_KEY));
     return stored ? JSON.parse(stored) : [];
   } catch (e) {
     console.error("Failed to load history", e);
@@ -12,21 +40,279 @@ export const getHistory = (): HistoryItem[] => {
   }
 };
 
-export const saveToHistory = (result: AnalysisResult, userContext: string): HistoryItem => {
-  const history = getHistory();
-  const newItem: HistoryItem = {
-    ...result,
-    user_context: userContext,
-    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
-    timestamp: Date.now(),
-  };
-  
-  // Prepend new item, limit to last 50
-  const updated = [newItem, ...history].slice(0, 50);
-  localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+const newestFirst = (items: HistoryItem[]) => [...items].sort((a, b) => b.timestamp - a.timestamp);
+
+// Writes through to storage in order; `sessions` is already up to date
+const persist = (changed: HistoryItem[], removedIds: string[] = []) => {
+  if (!useIndexedDb) {
+    try {
+      localStorage.setItem(profileKey(HISTORY_KEY), JSON.stringify(sessions.slice(0, LOCAL_STORAGE_LIMIT)));
+    } catch (e) {
+      console.error("Failed to save history", e);
+    }
+    return;
+  }
+  pendingWrites = pendingWrites
+    .then(() => withQuotaRetry(() => writeRecords(SESSION_STORE, changed, removedIds)))
+    .catch(e => console.error("Failed to save history", e));
+};
+
+// Stored media a session refers to: its homework pages and chat recordings/attachments
+export const getMediaRefs = (item: HistoryItem): string[] => [
+  ...(item.page_media ?? []),
+  ...(item.chat_history ?? []).flatMap(msg => [msg.audioUrl, ...(msg.attachments ?? []).map(a => a.url)]),
+].filter(isMediaRef);
+
+const withoutMedia = ({ page_media, ...item }: HistoryItem): HistoryItem => ({
+  ...item,
+  chat_history: item.chat_history?.map(({ audioUrl, attachments, ...msg }) => {
+    const keptAttachments = attachments?.filter(attachment => !isMediaRef(attachment.url));
+    return {
+      ...msg,
+      ...(audioUrl && !isMediaRef(audioUrl) ? { audioUrl } : {}),
+      ...(keptAttachments?.length ? { attachments: keptAttachments } : {}),
+    };
+  }),
+});
+
+// Deletes stored media no session refers to any more
+const collectUnusedMedia = async (sizes: Map<string, number>) => {
+  const used = new Set(sessions.flatMap(getMediaRefs));
+  await deleteMedia([...sizes.keys()].filter(ref => !used.has(ref)));
+};
+
+// Strips media from the oldest sessions until `bytesToFree` is released; resolves whether anything was.
+// Writes directly rather than through `pendingWrites`, since it also runs from inside a failed write.
+const evictMedia = async (bytesToFree: number): Promise<boolean> => {
+  const sizes = await getMediaSizes();
+  const changed: HistoryItem[] = [];
+  let freed = 0;
+  for (let i = sessions.length - 1; i >= 0 && freed < bytesToFree; i--) {
+    const refs = getMediaRefs(sessions[i]);
+    if (refs.length === 0) continue;
+    sessions[i] = withoutMedia(sessions[i]);
+    changed.push(sessions[i]);
+    // Pages shared with sibling sessions are only freed once none of them keeps them
+    const stillUsed = new Set(sessions.flatMap(getMediaRefs));
+    freed += refs.filter(ref => !stillUsed.has(ref)).reduce((total, ref) => total + (sizes.get(ref) ?? 0), 0);
+  }
+  if (changed.length === 0) return false;
+  await writeRecords(SESSION_STORE, changed);
+  await collectUnusedMedia(sizes);
+  return freed > 0;
+};
+
+// Applies the eviction policy; runs at startup, so it never competes with the live session
+const enforceStorageLimits = async () => {
+  const removed = sessions.slice(MAX_SESSIONS);
+  if (removed.length > 0) {
+    sessions = sessions.slice(0, MAX_SESSIONS);
+    await writeRecords(SESSION_STORE, [], removed.map(item => item.id));
+  }
+
+  await collectUnusedMedia(await getMediaSizes());
+  const mediaBytes = [...(await getMediaSizes()).values()].reduce((total, size) => total + size, 0);
+  if (mediaBytes > MAX_MEDIA_BYTES) {
+    await evictMedia(mediaBytes - MAX_MEDIA_BYTES);
+  }
+  const usage = await getStorageUsage();
+  if (usage !== null && usage > MAX_STORAGE_USAGE) {
+    await evictMedia(mediaBytes * (1 - MAX_STORAGE_USAGE / usage));
+  }
+};
+
+// Loads saved sessions; call once before the rest of this module is used.
+// The first run moves localStorage history into IndexedDB.
+export const initHistory = async (): Promise<HistoryItem[]> => {
+  useIndexedDb = false;
+  try {
+    const stored = await getAllRecords<HistoryItem>(SESSION_STORE);
+    const legacy = readLocalHistory();
+    if (legacy.length > 0) {
+      const storedIds = new Set(stored.map(item => item.id));
+      const migrated = legacy.filter(item => !storedIds.has(item.id));
+      await writeRecords(SESSION_STORE, migrated);
+      // Only dropped once the copy has committed, so an interrupted migration reruns
+      localStorage.removeItem(profileKey(HISTORY_KEY));
+      stored.push(...migrated);
+    }
+    sessions = newestFirst(stored);
+    useIndexedDb = true;
+
+    setEvictionPolicy(async () => {
+      const sizes = await getMediaSizes();
+      const mediaBytes = [...sizes.values()].reduce((total, size) => total + size, 0);
+      return evictMedia(Math.max(mediaBytes / 4, 1));
+    });
+    requestPersistentStorage();
+    await enforceStorageLimits();
+  } catch (e) {
+    console.error("IndexedDB unavailable, keeping history in localStorage", e);
+    sessions = readLocalHistory();
+  }
+  return getHistory();
+};
+
+export const getHistory = (): HistoryItem[] => [...sessions];
+
+// Resolves once queued writes have landed, e.g. before switching profiles
+export const flushHistory = async () => {
+  await pendingWrites;
+  await waitForMediaWrites();
+};
+
+// Object URLs of stored media are saved as references; any other object URL dies with the page
+const toStoredChat = (chatHistory: ChatMessage[]): ChatMessage[] =>
+  chatHistory.map(({ audioUrl, attachments, ...msg }) => {
+    const storedAudio = toStoredUrl(audioUrl);
+    const keptAttachments = attachments
+      ?.map(attachment => ({ ...attachment, url: toStoredUrl(attachment.url) }))
+      .filter(attachment => attachment.url);
+    return {
+      ...msg,
+      ...(storedAudio ? { audioUrl: storedAudio } : {}),
+      ...(keptAttachments?.length ? { attachments: keptAttachments } : {}),
+    };
+  });
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const createHistoryItem = (
+  result: AnalysisResult,
+  userContext: string,
+  chatHistory: ChatMessage[]
+): HistoryItem => ({
+  ...result,
+  user_context: userContext,
+  id: generateId(),
+  timestamp: Date.now(),
+  chat_history: toStoredChat(chatHistory),
+  mastery_achieved: false,
+});
+
+const prependToHistory = (items: HistoryItem[]) => {
+  sessions = [...items, ...sessions];
+  persist(items);
+};
+
+export const saveToHistory = (
+  result: AnalysisResult,
+  userContext: string,
+  chatHistory: ChatMessage[] = [],
+  reviewOf?: string
+): HistoryItem => {
+  const newItem: HistoryItem = { ...createHistoryItem(result, userContext, chatHistory), review_of: reviewOf };
+  prependToHistory([newItem]);
   return newItem;
 };
 
+// Each error diagnosed in one submission becomes its own session, listed in rank order.
+// `chatHistories[i]` opens the dialogue for `errors[i]`; `pageMedia` are the stored homework pages.
+export const saveSubmissionToHistory = (
+  errors: AnalysisResult[],
+  userContext: string,
+  chatHistories: ChatMessage[][],
+  pageMedia: string[] = []
+): HistoryItem[] => {
+  const submissionId = generateId();
+  const newItems = errors.map((result, index): HistoryItem => ({
+    ...createHistoryItem(result, userContext, chatHistories[index] ?? []),
+    submission_id: submissionId,
+    error_rank: index + 1,
+    ...(pageMedia.length > 0 ? { page_media: pageMedia } : {}),
+  }));
+  prependToHistory(newItems);
+  return newItems;
+};
+
+// All sessions from the item's submission in rank order; just the item for single-error submissions
+export const getSubmissionErrors = (item: HistoryItem, history: HistoryItem[]): HistoryItem[] =>
+  item.submission_id
+    ? history
+        .filter(other => other.submission_id === item.submission_id)
+        .sort((a, b) => (a.error_rank ?? 0) - (b.error_rank ?? 0))
+    : [item];
+
+// Persist the latest transcript, ladder position and mastery state of an existing session
+export const updateHistorySession = (
+  id: string,
+  chatHistory: ChatMessage[],
+  masteryAchieved: boolean,
+  practiceProgress?: PracticeProgress
+): HistoryItem | null => {
+  const index = sessions.findIndex(item => item.id === id);
+  if (index === -1) return null;
+
+  const updatedItem: HistoryItem = {
+    ...sessions[index],
+    chat_history: toStoredChat(chatHistory),
+    mastery_achieved: masteryAchieved,
+    ...(practiceProgress ? { practice_progress: practiceProgress } : {}),
+  };
+  sessions = sessions.map(item => (item.id === id ? updatedItem : item));
+  persist([updatedItem]);
+  return updatedItem;
+};
+
+// Adds or replaces sessions by id, e.g. from a backup
+export const putHistoryItems = (items: HistoryItem[]) => {
+  const ids = new Set(items.map(item => item.id));
+  sessions = newestFirst([...sessions.filter(item => !ids.has(item.id)), ...items]);
+  persist(items);
+};
+
+// Changes made outside the dialogue: the student's stars and tags, a teacher's or parent's feedback
+export const updateHistoryItem = (
+  id: string,
+  changes: Partial<Pick<HistoryItem, "tags" | "starred" | "supervisor_feedback">>
+): HistoryItem | null => {
+  const existing = sessions.find(item => item.id === id);
+  if (!existing) return null;
+
+  const updatedItem: HistoryItem = { ...existing, ...changes };
+  sessions = sessions.map(item => (item.id === id ? updatedItem : item));
+  persist([updatedItem]);
+  return updatedItem;
+};
+
+// Removes one session, and the stored media only it referred to.
+// Pages shared with sibling errors stay until the last of them is deleted.
+export const deleteHistoryItem = (id: string) => {
+  const removed = sessions.find(item => item.id === id);
+  if (!removed) return;
+
+  sessions = sessions.filter(item => item.id !== id);
+  persist([], [id]);
+  if (!useIndexedDb) return;
+
+  const stillUsed = new Set(sessions.flatMap(getMediaRefs));
+  const unused = getMediaRefs(removed).filter(ref => !stillUsed.has(ref));
+  pendingWrites = pendingWrites
+    .then(() => deleteMedia(unused))
+    .catch(e => console.error("Failed to delete media", e));
+};
+
+// Transcript to show when reopening an item; older items only kept the diagnosis.
+// Stored media comes back as references, see mediaService.resolveChatMedia.
+export const getSessionTranscript = (item: HistoryItem): ChatMessage[] => {
+  if (item.chat_history && item.chat_history.length > 0) {
+    return item.chat_history;
+  }
+  return [{
+    role: "tutor",
+    content: item.next_instruction,
+    timestamp: item.timestamp,
+    feedbackType: "INFO"
+  }];
+};
+
 export const clearHistory = () => {
-  localStorage.removeItem(HISTORY_KEY);
+  sessions = [];
+  if (!useIndexedDb) {
+    localStorage.removeItem(profileKey(HISTORY_KEY));
+    return;
+  }
+  pendingWrites = pendingWrites
+    .then(() => clearStores([SESSION_STORE, MEDIA_STORE]))
+    .catch(e => console.error("Failed to clear history", e));
 };
@@ -0,0 +1,165 @@
+import { ImageEdits } from "../types";
+
+// Browser-side photo preprocessing: HEIC conversion, crop/rotate/deskew,
+// contrast and downscaling, so the model gets an upright, reasonably sized page.
+
+export const DEFAULT_EDITS: ImageEdits = {
+  quarterTurns: 0,
+  straighten: 0,
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  contrast: 1,
+};
+
+export const MAX_STRAIGHTEN_DEGREES = 15;
+
+// What gets uploaded: long side and encoded size
+const UPLOAD_MAX_DIMENSION = 2048;
+const UPLOAD_MAX_BYTES = 1.5 * 1024 * 1024;
+const MIN_JPEG_QUALITY = 0.5;
+
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+// Browsers other than Safari often report HEIC files with an empty type
+export const isHeic = (file: File) =>
+  HEIC_TYPES.includes(file.type) || (!file.type && /\.(heic|heif)$/i.test(file.name));
+
+const toJpegName = (name: string) => name.replace(/\.[^.]+$/, "") + ".jpg";
+
+const convertHeic = async (file: File): Promise<Blob> => {
+  // libheif is large; load it only when an iPhone photo actually shows up
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+// Decoded with EXIF orientation applied
+const loadBitmap = (blob: Blob) => createImageBitmap(blob, { imageOrientation: "from-image" });
+
+const rotatedSize = (width: number, height: number, edits: ImageEdits) => {
+  const angle = ((edits.quarterTurns * 90 + edits.straighten) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos, angle };
+};
+
+const applyContrast = (ctx: CanvasRenderingContext2D, width: number, height: number, contrast: number) => {
+  if (contrast === 1) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - 128) * contrast + 128;
+    data[i + 1] = (data[i + 1] - 128) * contrast + 128;
+    data[i + 2] = (data[i + 2] - 128) * contrast + 128;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Renders the edited image with its long side capped at `maxDimension`.
+// Corners exposed by rotation are filled white, like paper.
+export const renderEdits = (source: ImageBitmap, edits: ImageEdits, maxDimension: number): HTMLCanvasElement => {
+  const rotated = rotatedSize(source.width, source.height, edits);
+  const cropWidth = rotated.width * edits.crop.width;
+  const cropHeight = rotated.height * edits.crop.height;
+  const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.scale(scale, scale);
+  ctx.translate(-rotated.width * edits.crop.x, -rotated.height * edits.crop.y);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate(rotated.angle);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  applyContrast(ctx, canvas.width, canvas.height, edits.contrast);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode image."))), "image/jpeg", quality)
+  );
+
+// JPEG at the highest quality that fits the upload budget
+const encodeForUpload = async (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+  let quality = 0.9;
+  let blob = await canvasToBlob(canvas, quality);
+  while (blob.size > UPLOAD_MAX_BYTES && quality > MIN_JPEG_QUALITY) {
+    quality -= 0.1;
+    blob = await canvasToBlob(canvas, quality);
+  }
+  return new File([blob], toJpegName(name), { type: "image/jpeg" });
+};
+
+// Decodable source for the editor; HEIC is converted first
+export const loadEditableImage = async (file: File): Promise<ImageBitmap> =>
+  loadBitmap(isHeic(file) ? await convertHeic(file) : file);
+
+export const applyImageEdits = async (original: File, edits: ImageEdits): Promise<File> => {
+  const bitmap = await loadEditableImage(original);
+  try {
+    return await encodeForUpload(renderEdits(bitmap, edits, UPLOAD_MAX_DIMENSION), original.name);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Default processing for every uploaded photo: upright, converted, downscaled
+export const prepareUploadImage = (file: File): Promise<File> => applyImageEdits(file, DEFAULT_EDITS);
+
+// Angle (degrees) whose horizontal projection of dark pixels is sharpest,
+// i.e. the rotation that makes lines of text level
+export const findSkewAngle = (points: { x: number; y: number }[], height: number): number => {
+  let bestAngle = 0;
+  let bestScore = -1;
+  const binCount = Math.ceil(height * 2);
+  for (let degrees = -MAX_STRAIGHTEN_DEGREES; degrees <= MAX_STRAIGHTEN_DEGREES; degrees += 0.5) {
+    const angle = (degrees * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    const bins = new Float32Array(binCount);
+    for (const { x, y } of points) {
+      const bin = Math.round(x * sin + y * cos + height / 2);
+      if (bin >= 0 && bin < binCount) bins[bin]++;
+    }
+    let score = 0;
+    for (const count of bins) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+  return bestAngle;
+};
+
+const DESKEW_SAMPLE_SIZE = 400;
+
+// Estimates the straighten angle for the image as currently turned
+export const estimateSkew = (source: ImageBitmap, quarterTurns: number): number => {
+  const sample = renderEdits(source, { ...DEFAULT_EDITS, quarterTurns }, DESKEW_SAMPLE_SIZE);
+  const ctx = sample.getContext("2d")!;
+  const { data } = ctx.getImageData(0, 0, sample.width, sample.height);
+
+  const luminance = new Float32Array(sample.width * sample.height);
+  let total = 0;
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    total += luminance[i];
+  }
+  const threshold = (total / luminance.length) * 0.75;
+
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i < luminance.length; i++) {
+    if (luminance[i] < threshold) {
+      points.push({ x: (i % sample.width) - sample.width / 2, y: Math.floor(i / sample.width) - sample.height / 2 });
+    }
+  }
+  if (points.length < 50) return 0;
+  return findSkewAngle(points, Math.hypot(sample.width, sample.height));
+};
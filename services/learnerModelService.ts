@@ -0,0 +1,115 @@
+import { ConceptMastery, InitialDiagnosis, LearningOutcome, MasterySnapshot } from "../types";
+import { profileKey } from "./profileService";
+
+const LEARNER_MODEL_KEY = "omni_tutor_learner_model";
+const MAX_SNAPSHOTS = 100;
+const MAX_MISCONCEPTIONS = 5;
+
+// Exponential moving average: each outcome pulls mastery toward its target
+const LEARNING_RATE = 0.3;
+const OUTCOME_TARGETS: Record<LearningOutcome, number> = {
+  DIAGNOSED: 0,
+  CONCEPT_ERROR: 0,
+  CALCULATION_ERROR: 0.7, // Concept understood, execution slipped
+  CORRECT: 1,
+  MASTERY_ACHIEVED: 1,
+};
+const INITIAL_MASTERY = 0.5;
+// Each hint taken (up to three) discounts the credit for a successful outcome
+const HINT_PENALTY = 0.1;
+const MAX_PENALIZED_HINTS = 3;
+export const WEAK_MASTERY_THRESHOLD = 0.6;
+
+type LearnerModel = Record<string, ConceptMastery>;
+
+const normalizeConcept = (topic: string) => topic.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const getLearnerModel = (): LearnerModel => {
+  try {
+    const stored = localStorage.getItem(profileKey(LEARNER_MODEL_KEY));
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load learner model", e);
+    return {};
+  }
+};
+
+const writeLearnerModel = (model: LearnerModel) => {
+  localStorage.setItem(profileKey(LEARNER_MODEL_KEY), JSON.stringify(model));
+};
+
+const emptyCounts = (): Record<LearningOutcome, number> => ({
+  DIAGNOSED: 0,
+  CONCEPT_ERROR: 0,
+  CALCULATION_ERROR: 0,
+  CORRECT: 0,
+  MASTERY_ACHIEVED: 0,
+});
+
+const applyOutcome = (
+  topic: string,
+  outcome: LearningOutcome,
+  details: { subject?: string; misconception?: string; hintsUsed?: number } = {}
+): ConceptMastery => {
+  const model = getLearnerModel();
+  const key = normalizeConcept(topic);
+  const now = Date.now();
+  const concept: ConceptMastery = model[key] ?? {
+    key,
+    topic: topic.trim(),
+    mastery: INITIAL_MASTERY,
+    misconceptions: [],
+    outcomeCounts: emptyCounts(),
+    history: [],
+    lastSeen: now,
+  };
+
+  const hintDiscount = HINT_PENALTY * Math.min(details.hintsUsed ?? 0, MAX_PENALIZED_HINTS);
+  const target = OUTCOME_TARGETS[outcome] > 0 ? OUTCOME_TARGETS[outcome] - hintDiscount : OUTCOME_TARGETS[outcome];
+  let mastery = concept.mastery + LEARNING_RATE * (target - concept.mastery);
+  // Finishing a practice dialogue is strong evidence on its own, less so with help
+  if (outcome === "MASTERY_ACHIEVED") mastery = Math.max(mastery, 0.8 - hintDiscount);
+
+  const snapshot: MasterySnapshot = { timestamp: now, mastery, outcome };
+  const misconceptions = details.misconception
+    ? [details.misconception, ...concept.misconceptions.filter(m => m !== details.misconception)]
+    : concept.misconceptions;
+
+  const updated: ConceptMastery = {
+    ...concept,
+    subject: details.subject ?? concept.subject,
+    mastery,
+    misconceptions: misconceptions.slice(0, MAX_MISCONCEPTIONS),
+    outcomeCounts: { ...concept.outcomeCounts, [outcome]: concept.outcomeCounts[outcome] + 1 },
+    history: [...concept.history, snapshot].slice(-MAX_SNAPSHOTS),
+    lastSeen: now,
+  };
+  writeLearnerModel({ ...model, [key]: updated });
+  return updated;
+};
+
+// A fresh diagnosis means the concept was just gotten wrong on real homework
+export const recordDiagnosis = (diagnosis: InitialDiagnosis): ConceptMastery =>
+  applyOutcome(diagnosis.new_practice_question.topic, "DIAGNOSED", {
+    subject: diagnosis.new_practice_question.subject,
+    misconception: diagnosis.conceptual_misunderstanding,
+  });
+
+// `hintsUsed` is the number of hints taken in the session so far
+export const recordEvaluation = (topic: string, outcome: LearningOutcome, hintsUsed = 0): ConceptMastery =>
+  applyOutcome(topic, outcome, { hintsUsed });
+
+// Concepts ordered weakest first
+export const getConceptMasteries = (): ConceptMastery[] =>
+  Object.values(getLearnerModel()).sort((a, b) => a.mastery - b.mastery);
+
+// Change in mastery across the last `window` recorded outcomes
+export const getMasteryTrend = (concept: ConceptMastery, window = 5): number => {
+  const recent = concept.history.slice(-(window + 1));
+  if (recent.length < 2) return 0;
+  return recent[recent.length - 1].mastery - recent[0].mastery;
+};
+
+export const clearLearnerModel = () => {
+  localStorage.removeItem(profileKey(LEARNER_MODEL_KEY));
+};
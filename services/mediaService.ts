@@ -0,0 +1,108 @@
+import { ChatMessage } from "../types";
+import { MEDIA_STORE, getAllRecords, getRecord, withQuotaRetry, writeRecords } from "./storageService";
+
+// Homework pages, recordings and attachments kept in IndexedDB.
+// Sessions refer to them as "media:<id>"; the UI uses object URLs registered here.
+
+interface MediaRecord {
+  id: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+}
+
+const MEDIA_REF_PREFIX = "media:";
+
+export const isMediaRef = (url: string | undefined): url is string => !!url?.startsWith(MEDIA_REF_PREFIX);
+
+const refId = (ref: string) => ref.slice(MEDIA_REF_PREFIX.length);
+
+// Object URLs handed out for stored media, so sessions can be saved with the reference instead
+const refsByUrl = new Map<string, string>();
+
+// Media writes run in order; reads wait for them so a fresh reference always resolves
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+// Stores a blob under an existing reference in the background, e.g. one restored from a backup
+export const putMedia = (ref: string, blob: Blob) => {
+  const record: MediaRecord = { id: refId(ref), blob, size: blob.size, createdAt: Date.now() };
+  pendingWrites = pendingWrites
+    .then(() => withQuotaRetry(() => writeRecords(MEDIA_STORE, [record])))
+    .catch(e => console.error("Failed to store media", e));
+};
+
+// Stores a blob in the background and returns its reference
+export const saveMedia = (blob: Blob): string => {
+  const ref = MEDIA_REF_PREFIX + Date.now().toString(36) + Math.random().toString(36).substr(2);
+  putMedia(ref, blob);
+  return ref;
+};
+
+// Stores a blob and returns an object URL for showing it; the URL maps back to the stored copy
+export const createStoredMediaUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  refsByUrl.set(url, saveMedia(blob));
+  return url;
+};
+
+export const releaseMediaUrl = (url: string) => {
+  if (!url.startsWith("blob:")) return;
+  URL.revokeObjectURL(url);
+  refsByUrl.delete(url);
+};
+
+export const waitForMediaWrites = () => pendingWrites;
+
+export const loadMedia = async (ref: string): Promise<Blob | null> => {
+  await pendingWrites;
+  try {
+    const record = await getRecord<MediaRecord>(MEDIA_STORE, refId(ref));
+    return record?.blob ?? null;
+  } catch (e) {
+    console.error("Failed to load media", e);
+    return null;
+  }
+};
+
+// Reference to save in place of a URL: stored media keeps its reference, other object URLs die with the page
+export const toStoredUrl = (url: string | undefined): string | undefined => {
+  if (!url) return undefined;
+  if (url.startsWith("blob:")) return refsByUrl.get(url);
+  return url;
+};
+
+// Turns saved references back into object URLs; media that was evicted is dropped
+export const resolveChatMedia = async (chatHistory: ChatMessage[]): Promise<ChatMessage[]> => {
+  const resolve = async (url: string | undefined) => {
+    if (!isMediaRef(url)) return url;
+    const blob = await loadMedia(url);
+    if (!blob) return undefined;
+    const objectUrl = URL.createObjectURL(blob);
+    refsByUrl.set(objectUrl, url);
+    return objectUrl;
+  };
+
+  return Promise.all(chatHistory.map(async ({ audioUrl, attachments, ...msg }) => {
+    const resolvedAudio = await resolve(audioUrl);
+    const resolvedAttachments = attachments && (await Promise.all(
+      attachments.map(async attachment => ({ ...attachment, url: await resolve(attachment.url) }))
+    )).filter(attachment => attachment.url);
+    return {
+      ...msg,
+      ...(resolvedAudio ? { audioUrl: resolvedAudio } : {}),
+      ...(resolvedAttachments?.length ? { attachments: resolvedAttachments } : {}),
+    };
+  }));
+};
+
+// Size in bytes of every stored item, by reference. Does not wait for pending writes,
+// since eviction runs from inside a write that hit the quota.
+export const getMediaSizes = async (): Promise<Map<string, number>> => {
+  const records = await getAllRecords<MediaRecord>(MEDIA_STORE);
+  return new Map(records.map(record => [MEDIA_REF_PREFIX + record.id, record.size]));
+};
+
+export const deleteMedia = async (refs: string[]) => {
+  if (refs.length === 0) return;
+  await writeRecords(MEDIA_STORE, [], refs.map(refId));
+};
@@ -0,0 +1,177 @@
+import { Schema } from "@google/genai";
+import { TutorProvider, TutorPart, TutorRequest, TutorTask } from "./tutorProvider";
+import { TutorServiceError } from "./errors";
+
+interface OpenAICompatibleProviderOptions {
+  // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Strict mode wants every property listed in `required`, so optional ones are sent
+// as nullable and the nulls stripped from the reply (see withoutNulls)
+const toNullable = (schema: Record<string, unknown>): Record<string, unknown> => ({
+  ...schema,
+  type: [schema.type, "null"],
+  ...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {}),
+});
+
+// Gemini schemas use upper-case type names; JSON Schema expects lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.description) result.description = schema.description;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  // Gemini keeps int64 counts as strings
+  if (schema.minItems !== undefined) result.minItems = Number(schema.minItems);
+  if (schema.maxItems !== undefined) result.maxItems = Number(schema.maxItems);
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.properties) {
+    // Generation follows key order, so honour Gemini's propertyOrdering
+    const keys = [
+      ...(schema.propertyOrdering ?? []),
+      ...Object.keys(schema.properties).filter(key => !schema.propertyOrdering?.includes(key)),
+    ];
+    result.properties = Object.fromEntries(
+      keys.map(key => {
+        const property = toJsonSchema(schema.properties![key]);
+        return [key, schema.required?.includes(key) ? property : toNullable(property)];
+      })
+    );
+    result.required = keys;
+    result.additionalProperties = false;
+  }
+  return result;
+};
+
+// Drops the nulls sent for omitted optional fields, so replies match the Gemini shape
+const withoutNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutNulls);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== null)
+      .map(([key, entry]) => [key, withoutNulls(entry)])
+  );
+};
+
+// Unparseable text is passed through for generateValidated to report and repair
+const normalizeReply = (text: string) => {
+  try {
+    return JSON.stringify(withoutNulls(JSON.parse(text)));
+  } catch {
+    return text;
+  }
+};
+
+// The only `input_audio` formats the API takes; the browser sends WAV unless transcoding failed
+const INPUT_AUDIO_FORMATS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+};
+
+const toMessageContent = (task: TutorTask) => (part: TutorPart) => {
+  if ("text" in part) {
+    return { type: "text", text: part.text };
+  }
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith("audio/")) {
+    const format = INPUT_AUDIO_FORMATS[mimeType];
+    if (!format) {
+      throw new TutorServiceError(
+        "UNSUPPORTED_MEDIA",
+        task,
+        `The model server only accepts WAV or MP3 recordings, not ${mimeType}.`
+      );
+    }
+    return { type: "input_audio", input_audio: { data, format } };
+  }
+  if (mimeType === "application/pdf") {
+    return { type: "file", file: { filename: "homework.pdf", file_data: `data:${mimeType};base64,${data}` } };
+  }
+  return { type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } };
+};
+
+// Reads `data:` lines from a server-sent event stream until [DONE]
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === "[DONE]") return;
+      yield data;
+    }
+  }
+}
+
+// Talks to any server implementing the OpenAI chat completions API
+export const createOpenAICompatibleProvider = ({
+  baseUrl,
+  apiKey,
+  model,
+}: OpenAICompatibleProviderOptions): TutorProvider => {
+  const requestCompletion = async ({ task, parts, schema }: TutorRequest, stream: boolean) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [{ role: "user", content: parts.map(toMessageContent(task)) }],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: task, schema: toJsonSchema(schema), strict: true },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model server responded with ${response.status} ${response.statusText}.`);
+    }
+    return response;
+  };
+
+  return {
+    name: "openai",
+    generateStructured: async (request) => {
+      const response = await requestCompletion(request, false);
+      const body = await response.json();
+      const textResponse: string | undefined = body?.choices?.[0]?.message?.content;
+      if (!textResponse) throw new Error("No response from model server.");
+      return normalizeReply(textResponse);
+    },
+    streamStructured: async (request, onText) => {
+      const response = await requestCompletion(request, true);
+      if (!response.body) throw new Error("Model server did not return a stream.");
+
+      let textResponse = "";
+      for await (const data of readServerSentEvents(response.body)) {
+        const delta: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (!delta) continue;
+        textResponse += delta;
+        onText(textResponse);
+      }
+      if (!textResponse) throw new Error("No response from model server.");
+      return normalizeReply(textResponse);
+    },
+  };
+};
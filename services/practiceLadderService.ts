@@ -0,0 +1,62 @@
+import { ChatMessage, FeedbackResult, InitialDiagnosis, PracticeProgress, PracticeQuestion } from "../types";
+import { ladderStartIndex } from "./tutorApi";
+
+// How the session moved after an evaluation: `complete` means the whole ladder is passed
+export type LadderMove = "stay" | "up" | "down" | "complete";
+
+// Questions of a session, easiest first; older diagnoses and review sessions have just one
+export const getPracticeLadder = (diagnosis: InitialDiagnosis): PracticeQuestion[] =>
+  diagnosis.practice_questions?.length ? diagnosis.practice_questions : [diagnosis.new_practice_question];
+
+export const startPracticeProgress = (ladder: PracticeQuestion[]): PracticeProgress => ({
+  current: ladderStartIndex(ladder.length),
+  passed: ladder.map(() => false),
+});
+
+// Messages exchanged about one question; messages saved before ladders existed belong to the first
+export const getQuestionTranscript = (chatHistory: ChatMessage[], questionIndex: number): ChatMessage[] =>
+  chatHistory.filter(msg => (msg.questionIndex ?? 0) === questionIndex);
+
+// Solved without any slip or hint along the way
+const isCleanSolve = (transcript: ChatMessage[]) =>
+  !transcript.some(msg =>
+    msg.feedbackType === "CONCEPT_ERROR" || msg.feedbackType === "CALCULATION_ERROR" || msg.feedbackType === "HINT"
+  );
+
+// Nearest unsolved question below the current one, or -1
+const findEasier = (passed: boolean[], current: number) => {
+  for (let i = current - 1; i >= 0; i--) {
+    if (!passed[i]) return i;
+  }
+  return -1;
+};
+
+// Adaptive ladder: a concept error steps down to an easier unsolved question; a solved
+// question steps up, unless it needed help and an easier one is left to consolidate on.
+// The ladder is passed once its hardest question is solved.
+export const advancePractice = (
+  progress: PracticeProgress,
+  feedback: FeedbackResult,
+  transcript: ChatMessage[]
+): { progress: PracticeProgress; move: LadderMove } => {
+  const { current } = progress;
+
+  if (feedback.dialogue_action !== "MASTERY_ACHIEVED") {
+    const easier = feedback.evaluation_result === "CONCEPT_ERROR" ? findEasier(progress.passed, current) : -1;
+    return easier === -1
+      ? { progress, move: "stay" }
+      : { progress: { ...progress, current: easier }, move: "down" };
+  }
+
+  const passed = progress.passed.map((done, i) => done || i === current);
+  if (passed[passed.length - 1]) {
+    return { progress: { current, passed }, move: "complete" };
+  }
+
+  const easier = isCleanSolve(transcript) ? -1 : findEasier(passed, current);
+  if (easier !== -1) {
+    return { progress: { current: easier, passed }, move: "down" };
+  }
+  const harder = passed.findIndex((done, i) => i > current && !done);
+  return { progress: { current: harder, passed }, move: "up" };
+};
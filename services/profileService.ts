@@ -0,0 +1,84 @@
+import { LearnerProfile } from "../types";
+
+// Learner profiles sharing one browser. Per-learner data (history and media, review queue,
+// learner model, settings) is stored under keys namespaced by the active profile.
+
+const PROFILES_KEY = "omni_tutor_profiles";
+
+// Owns the data saved before profiles existed, which keeps its original keys
+const DEFAULT_PROFILE_ID = "default";
+
+interface ProfileState {
+  profiles: LearnerProfile[];
+  activeId: string;
+}
+
+let state: ProfileState | null = null;
+
+const defaultState = (): ProfileState => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "", createdAt: Date.now() }],
+  activeId: DEFAULT_PROFILE_ID,
+});
+
+const getState = (): ProfileState => {
+  if (!state) {
+    try {
+      const stored = localStorage.getItem(PROFILES_KEY);
+      state = stored ? JSON.parse(stored) : defaultState();
+    } catch (e) {
+      console.error("Failed to load profiles", e);
+      state = defaultState();
+    }
+  }
+  return state;
+};
+
+const writeState = (next: ProfileState) => {
+  state = next;
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+};
+
+export const getProfiles = (): LearnerProfile[] => getState().profiles;
+
+export const getActiveProfile = (): LearnerProfile => {
+  const { profiles, activeId } = getState();
+  return profiles.find(profile => profile.id === activeId) ?? profiles[0];
+};
+
+// Storage key or database name for the active profile
+export const profileKey = (base: string) => {
+  const { id } = getActiveProfile();
+  return id === DEFAULT_PROFILE_ID ? base : `${base}:${id}`;
+};
+
+export const createProfile = (details: Pick<LearnerProfile, "name" | "gradeLevel">): LearnerProfile => {
+  const profile: LearnerProfile = {
+    ...details,
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+    createdAt: Date.now(),
+  };
+  const current = getState();
+  writeState({ ...current, profiles: [...current.profiles, profile] });
+  return profile;
+};
+
+export const updateProfile = (
+  id: string,
+  changes: Partial<Pick<LearnerProfile, "name" | "gradeLevel">>
+): LearnerProfile | null => {
+  const current = getState();
+  const existing = current.profiles.find(profile => profile.id === id);
+  if (!existing) return null;
+
+  const updated = { ...existing, ...changes };
+  writeState({ ...current, profiles: current.profiles.map(profile => (profile.id === id ? updated : profile)) });
+  return updated;
+};
+
+// Only switches the key namespace; callers reload each store afterwards
+export const setActiveProfile = (id: string) => {
+  const current = getState();
+  if (current.profiles.some(profile => profile.id === id)) {
+    writeState({ ...current, activeId: id });
+  }
+};
@@ -0,0 +1,129 @@
+import { ChatMessage, HistoryItem, MessageAnnotation } from "../types";
+import { I18n, evaluationKey, hintLevelKey, severityKey } from "../i18n";
+import { countHintsUsed } from "./tutorApi";
+import { getPracticeLadder } from "./practiceLadderService";
+import { blobToGenerativePart, downloadBlob } from "./utils";
+import { loadMedia } from "./mediaService";
+import { getAnnotation, getEffectiveEvaluation } from "./supervisorService";
+
+// Study report for sharing a session with teachers or parents, as Markdown.
+// The same text is rendered for printing (components/ExportMenu.tsx).
+
+// Embedded page images; null for a page whose image was evicted, so numbering is kept
+export interface ReportPage {
+  mimeType: string;
+  dataUrl?: string; // Absent for PDFs, which cannot be shown inline
+}
+
+export const encodeReportPages = (files: (Blob | null)[]): Promise<(ReportPage | null)[]> =>
+  Promise.all(
+    files.map(async file => {
+      if (!file) return null;
+      return file.type.startsWith("image/")
+        ? { mimeType: file.type, dataUrl: `data:${file.type};base64,${await blobToGenerativePart(file)}` }
+        : { mimeType: file.type };
+    })
+  );
+
+// Pages saved with a session
+export const loadReportPages = async (item: HistoryItem): Promise<(ReportPage | null)[]> =>
+  encodeReportPages(await Promise.all((item.page_media ?? []).map(loadMedia)));
+
+// Quotes every line, so multi-paragraph text stays inside the block
+const blockquote = (text: string) =>
+  text.split("\n").map(line => (line ? `> ${line}` : ">")).join("\n");
+
+// Verdicts changed by a teacher or parent show the tutor's one struck through
+const messageBadge = (msg: ChatMessage, t: I18n["t"], annotation?: MessageAnnotation) => {
+  if (msg.feedbackType === "HINT") {
+    return t("chat.hintBadge", { level: t(hintLevelKey(msg.hintLevel ?? 1)) });
+  }
+  const evaluation = getEffectiveEvaluation(msg, annotation);
+  if (!evaluation) return null;
+  const badge = `_${t(evaluationKey(evaluation))}_`;
+  return evaluation === msg.feedbackType ? badge : `~~${t(evaluationKey(msg.feedbackType as typeof evaluation))}~~ ${badge}`;
+};
+
+const formatMessage = (msg: ChatMessage, t: I18n["t"], annotation?: MessageAnnotation) => {
+  const speaker = msg.role === "user" ? t("report.student") : t("report.tutor");
+  const badge = messageBadge(msg, t, annotation);
+  const lines = [`**${speaker}**${badge ? ` · ${badge}` : ""}`, "", msg.content];
+  if (msg.attachments?.length) {
+    lines.push("", `_${t("report.attachments", { count: msg.attachments.length })}_`);
+  }
+  if (annotation?.note) {
+    lines.push("", blockquote(`**${t("supervisor.noteLabel")}** ${annotation.note}`));
+  }
+  return lines.join("\n");
+};
+
+export const buildReportMarkdown = (
+  item: HistoryItem,
+  { t, formatDate }: I18n,
+  pages?: (ReportPage | null)[]
+): string => {
+  const ladder = getPracticeLadder(item);
+  const passed = item.practice_progress?.passed ?? ladder.map(() => !!item.mastery_achieved);
+  const chatHistory = item.chat_history ?? [];
+  const sections: string[] = [`# ${t("report.title")}`, formatDate(item.timestamp)];
+
+  // Original work
+  const pageLines = pages?.length
+    ? pages.map((page, index) => {
+        if (!page) return `- ${t("pages.unavailable", { number: index + 1 })}`;
+        return page.dataUrl
+          ? `![${t("pages.alt", { number: index + 1 })}](${page.dataUrl})`
+          : `- ${t("report.pdfPage", { number: index + 1 })}`;
+      })
+    : [`_${t("report.imagesNotSaved")}_`];
+  sections.push(`## ${t("report.originalWork")}`, pageLines.join("\n\n"));
+  if (item.user_context) {
+    sections.push(`### ${t("report.thoughtProcess")}`, blockquote(item.user_context));
+  }
+
+  // Diagnosis
+  const details = [
+    item.problem && `- **${t("report.problem")}:** ${item.problem}`,
+    item.severity && `- **${t("report.severity")}:** ${t(severityKey(item.severity))}`,
+    item.error_page && `- **${t("report.page")}:** ${item.error_page}`,
+    item.error_step && `- **${t("report.errorStep")}:** \`${item.error_step}\``,
+  ].filter(Boolean);
+  sections.push(`## ${t("diagnosis.title")}`);
+  if (details.length > 0) sections.push(details.join("\n"));
+  sections.push(item.conceptual_misunderstanding, blockquote(item.tutor_feedback));
+  const flag = item.supervisor_feedback?.diagnosis_flag;
+  if (flag) sections.push(`**${t("supervisor.flaggedLabel")}** ${flag.note}`);
+
+  // Practice questions
+  sections.push(`## ${t("report.practiceQuestions")}`);
+  ladder.forEach((question, index) => {
+    const title = ladder.length > 1
+      ? t("ladder.questionTitle", { number: index + 1, level: question.difficulty ?? index + 1 })
+      : question.topic;
+    sections.push(`### ${title}${passed[index] ? " ✓" : ""}`, question.question_text);
+  });
+
+  // Transcript
+  const transcript = chatHistory.map((msg, index) =>
+    formatMessage(msg, t, getAnnotation(item.supervisor_feedback, index))
+  );
+  sections.push(`## ${t("report.conversation")}`, transcript.join("\n\n---\n\n"));
+
+  // Outcome
+  const hintsUsed = countHintsUsed(chatHistory);
+  const outcome = item.mastery_achieved
+    ? t("report.mastered")
+    : t("report.inProgress", { solved: passed.filter(Boolean).length, total: ladder.length });
+  sections.push(
+    `## ${t("report.outcome")}`,
+    hintsUsed > 0 ? `**${outcome}** · ${t("history.hintCount", { count: hintsUsed })}` : `**${outcome}**`
+  );
+
+  return sections.join("\n\n") + "\n";
+};
+
+export const reportFileName = (item: HistoryItem) =>
+  `omni-tutor-report-${new Date(item.timestamp).toISOString().slice(0, 10)}.md`;
+
+export const downloadMarkdown = (markdown: string, fileName: string) =>
+  downloadBlob(new Blob([markdown], { type: "text/markdown;charset=utf-8" }), fileName);
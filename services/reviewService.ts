@@ -0,0 +1,105 @@
+import { ChatMessage, HistoryItem, ReviewCard } from "../types";
+import { profileKey } from "./profileService";
+
+const REVIEW_KEY = "omni_tutor_review_queue";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+type ReviewQueue = Record<string, ReviewCard>;
+
+const getReviewQueue = (): ReviewQueue => {
+  try {
+    const stored = localStorage.getItem(profileKey(REVIEW_KEY));
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load review queue", e);
+    return {};
+  }
+};
+
+const writeReviewQueue = (queue: ReviewQueue) => {
+  localStorage.setItem(profileKey(REVIEW_KEY), JSON.stringify(queue));
+};
+
+const createCard = (item: HistoryItem): ReviewCard => ({
+  historyId: item.id,
+  topic: item.new_practice_question.topic,
+  subject: item.new_practice_question.subject,
+  misconception: item.conceptual_misunderstanding,
+  easeFactor: INITIAL_EASE,
+  intervalDays: 1,
+  repetitions: 0,
+  dueAt: item.timestamp + DAY_MS,
+});
+
+// Ensures every diagnosed session has a card, and drops cards whose session is gone.
+// Review sessions themselves are not scheduled.
+export const syncReviewQueue = (history: HistoryItem[]): ReviewCard[] => {
+  const queue = getReviewQueue();
+  const synced: ReviewQueue = {};
+  for (const item of history) {
+    if (item.review_of) continue;
+    synced[item.id] = queue[item.id] ?? createCard(item);
+  }
+  // Cards outlive their source session only while they are still being reviewed
+  for (const card of Object.values(queue)) {
+    if (!synced[card.historyId] && card.repetitions > 0) synced[card.historyId] = card;
+  }
+  writeReviewQueue(synced);
+  return Object.values(synced);
+};
+
+export const getDueReviews = (now = Date.now()): ReviewCard[] =>
+  Object.values(getReviewQueue())
+    .filter(card => card.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt);
+
+export const getReviewCard = (historyId: string): ReviewCard | null =>
+  getReviewQueue()[historyId] ?? null;
+
+// SM-2 recall quality (0-5) from how the review dialogue went; needing hints caps it
+export const gradeReviewSession = (chatHistory: ChatMessage[]): number => {
+  const outcomes = chatHistory.filter(msg => msg.role === "tutor").map(msg => msg.feedbackType);
+  const maxHintLevel = Math.max(0, ...chatHistory.map(msg => msg.hintLevel ?? 0));
+  if (outcomes.includes("CONCEPT_ERROR") || maxHintLevel === 3) return 2;
+  if (outcomes.includes("CALCULATION_ERROR") || maxHintLevel > 0) return maxHintLevel === 2 ? 3 : 4;
+  return 5;
+};
+
+// SM-2: failed recalls restart the ladder; successes stretch the interval by the ease factor
+export const recordReview = (historyId: string, quality: number, now = Date.now()): ReviewCard | null => {
+  const queue = getReviewQueue();
+  const card = queue[historyId];
+  if (!card) return null;
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  }
+
+  const updated: ReviewCard = {
+    ...card,
+    easeFactor,
+    repetitions,
+    intervalDays,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+  writeReviewQueue({ ...queue, [historyId]: updated });
+  return updated;
+};
+
+export const clearReviewQueue = () => {
+  localStorage.removeItem(profileKey(REVIEW_KEY));
+};
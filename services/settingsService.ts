@@ -0,0 +1,25 @@
+import { AppSettings } from "../types";
+import { resolveUiLocale } from "../i18n";
+import { profileKey } from "./profileService";
+
+const SETTINGS_KEY = "omni_tutor_settings";
+
+const defaultSettings = (): AppSettings => {
+  const uiLocale = resolveUiLocale(typeof navigator !== "undefined" ? navigator.language : undefined);
+  return { uiLocale, tutorLanguage: uiLocale };
+};
+
+export const getSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(profileKey(SETTINGS_KEY));
+    return stored ? { ...defaultSettings(), ...JSON.parse(stored) } : defaultSettings();
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return defaultSettings();
+  }
+};
+
+export const saveSettings = (settings: AppSettings): AppSettings => {
+  localStorage.setItem(profileKey(SETTINGS_KEY), JSON.stringify(settings));
+  return settings;
+};
@@ -0,0 +1,123 @@
+import { profileKey } from "./profileService";
+
+// IndexedDB database behind history and media storage (historyService, mediaService).
+// Each learner profile has its own database.
+
+const DB_NAME = "omni_tutor";
+const DB_VERSION = 1;
+
+export const SESSION_STORE = "sessions";
+export const MEDIA_STORE = "media";
+type StoreName = typeof SESSION_STORE | typeof MEDIA_STORE;
+
+let database: { name: string; connection: Promise<IDBDatabase> } | null = null;
+
+// Opens the active profile's database, closing the previous profile's
+const openDatabase = (): Promise<IDBDatabase> => {
+  const name = profileKey(DB_NAME);
+  if (database?.name !== name) {
+    database?.connection.then(db => db.close(), () => {});
+    const connection = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database = { name, connection };
+  }
+  return database.connection;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed.
+// `work` may only await requests on `tx`, or the transaction closes early.
+const inTransaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+  // A failing `work` aborts the transaction; its error is the one to report
+  committed.catch(() => {});
+  const result = await work(tx);
+  await committed;
+  return result;
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  inTransaction([store], "readonly", tx => requestResult(tx.objectStore(store).getAll() as IDBRequest<T[]>));
+
+export const getRecord = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  inTransaction([store], "readonly", tx => requestResult(tx.objectStore(store).get(key) as IDBRequest<T | undefined>));
+
+// Puts and deletes in one store as a single atomic write
+export const writeRecords = (store: StoreName, records: object[], deletedKeys: string[] = []): Promise<void> =>
+  inTransaction([store], "readwrite", async tx => {
+    const objectStore = tx.objectStore(store);
+    await Promise.all([
+      ...records.map(record => requestResult(objectStore.put(record))),
+      ...deletedKeys.map(key => requestResult(objectStore.delete(key))),
+    ]);
+  });
+
+export const clearStores = (stores: StoreName[]): Promise<void> =>
+  inTransaction(stores, "readwrite", async tx => {
+    await Promise.all(stores.map(store => requestResult(tx.objectStore(store).clear())));
+  });
+
+export const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === DOMException.QUOTA_EXCEEDED_ERR);
+
+// Origin storage use as a fraction of its quota, when the browser reports it
+export const getStorageUsage = async (): Promise<number | null> => {
+  const estimate = await navigator.storage?.estimate?.();
+  return estimate?.quota ? (estimate.usage ?? 0) / estimate.quota : null;
+};
+
+// Asks the browser not to clear this origin's storage under pressure; best effort
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persisted && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (e) {
+    console.warn("Persistent storage request failed", e);
+  }
+};
+
+// Frees space when a write hits the quota; resolves whether anything was freed
+type EvictionPolicy = () => Promise<boolean>;
+let evictionPolicy: EvictionPolicy | null = null;
+
+export const setEvictionPolicy = (policy: EvictionPolicy) => {
+  evictionPolicy = policy;
+};
+
+// Retries a write once after the eviction policy has made room
+export const withQuotaRetry = async <T>(write: () => Promise<T>): Promise<T> => {
+  try {
+    return await write();
+  } catch (error) {
+    if (!isQuotaExceeded(error) || !evictionPolicy || !(await evictionPolicy())) throw error;
+    return write();
+  }
+};
@@ -0,0 +1,168 @@
+import { Schema, Type } from "@google/genai";
+import { SchemaIssue, InvalidModelResponseError, TutorServiceError, requestFailedMessage } from "./errors";
+import { StreamListener, TutorProvider, TutorRequest } from "./tutorProvider";
+
+// `value` is only set when `issues` is empty
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: SchemaIssue[];
+}
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Walks a value alongside its Gemini response schema and reports every mismatch
+export const collectSchemaIssues = (value: unknown, schema: Schema, path = "$"): SchemaIssue[] => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return [{ path, message: "expected an object" }];
+      const issues: SchemaIssue[] = [];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined || value[key] === null) {
+          issues.push({ path: `${path}.${key}`, message: "is required" });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          issues.push(...collectSchemaIssues(value[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [{ path, message: "expected an array" }];
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+        return [{ path, message: `expected at least ${schema.minItems} items` }];
+      }
+      if (!schema.items) return [];
+      return value.flatMap((item, index) => collectSchemaIssues(item, schema.items!, `${path}[${index}]`));
+    }
+    case Type.STRING: {
+      if (typeof value !== "string") return [{ path, message: "expected a string" }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `expected one of ${schema.enum.join(", ")}, got "${value}"` }];
+      }
+      return [];
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== "number" || Number.isNaN(value)) return [{ path, message: "expected a number" }];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [{ path, message: "expected an integer" }];
+      if (schema.minimum !== undefined && value < schema.minimum) return [{ path, message: `must be at least ${schema.minimum}` }];
+      if (schema.maximum !== undefined && value > schema.maximum) return [{ path, message: `must be at most ${schema.maximum}` }];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === "boolean" ? [] : [{ path, message: "expected a boolean" }];
+    default:
+      return [];
+  }
+};
+
+// Typed validator for a response schema; T must describe the same shape as `schema`
+export const createValidator = <T>(schema: Schema): Validator<T> => (value) => {
+  const issues = collectSchemaIssues(value, schema);
+  return { value: issues.length === 0 ? (value as T) : null, issues };
+};
+
+// Local repair for common formatting slips: markdown fences and chatter around the JSON
+export const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate.trim();
+};
+
+export const parseStructured = <T>(text: string, validate: Validator<T>): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch {
+    return { value: null, issues: [{ path: "$", message: "reply is not valid JSON" }] };
+  }
+  return validate(parsed);
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+
+// Decodes the (possibly unterminated) string value of `field` from a partial JSON reply,
+// so streamed text can be shown before the object is complete. Null until the field starts.
+export const readPartialStringField = (partialJson: string, field: string): string | null => {
+  const opening = new RegExp(`"${field}"\\s*:\\s*"`).exec(partialJson);
+  if (!opening) return null;
+
+  let result = "";
+  for (let i = opening.index + opening[0].length; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+    const escaped = partialJson[i + 1];
+    if (escaped === undefined) break; // Escape sequence split across chunks
+    if (escaped === "u") {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      result += JSON_ESCAPES[escaped] ?? escaped;
+      i += 1;
+    }
+  }
+  return result;
+};
+
+const buildRepairPrompt = (rawText: string, issues: SchemaIssue[]) => `
+Your previous reply could not be used because it did not match the required JSON Schema:
+${issues.map(issue => `- ${issue.path} ${issue.message}`).join("\n")}
+
+Previous reply:
+${rawText}
+
+Answer the original request again. Return only the corrected JSON object.
+`;
+
+// Calls the provider and validates its reply, asking the model to fix its output
+// for up to `maxAttempts` tries before giving up with an InvalidModelResponseError.
+// With `onText`, each attempt is streamed and reported from its first chunk.
+export const generateValidated = async <T>(
+  provider: TutorProvider,
+  request: TutorRequest,
+  validate: Validator<T>,
+  maxAttempts = 3,
+  onText?: StreamListener
+): Promise<T> => {
+  let parts = request.parts;
+  let lastText = "";
+  let lastIssues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      lastText = onText
+        ? await provider.streamStructured({ ...request, parts }, onText)
+        : await provider.generateStructured({ ...request, parts });
+    } catch (error) {
+      if (error instanceof TutorServiceError) throw error;
+      throw new TutorServiceError(
+        "REQUEST_FAILED",
+        request.task,
+        requestFailedMessage(request.task),
+        { cause: error }
+      );
+    }
+
+    const result = parseStructured(lastText, validate);
+    if (result.issues.length === 0) return result.value as T;
+
+    lastIssues = result.issues;
+    console.warn(`Invalid ${request.task} response (attempt ${attempt}/${maxAttempts}):`, lastIssues);
+    parts = [...request.parts, { text: buildRepairPrompt(lastText, lastIssues) }];
+  }
+
+  throw new InvalidModelResponseError(request.task, lastIssues, lastText);
+};
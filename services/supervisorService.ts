@@ -0,0 +1,76 @@
+import { ChatMessage, FeedbackResult, MessageAnnotation, SupervisorFeedback } from "../types";
+
+// Feedback a teacher or parent leaves on a session in review mode (components/SupervisorView.tsx).
+// Functions return a new SupervisorFeedback to save with historyService.updateHistoryItem.
+
+type Evaluation = FeedbackResult["evaluation_result"];
+
+export const EVALUATIONS: Evaluation[] = ["CORRECT", "CALCULATION_ERROR", "CONCEPT_ERROR"];
+
+const EMPTY_FEEDBACK: SupervisorFeedback = { annotations: [] };
+
+// Tutor messages carrying a verdict on the student's answer, which a reviewer can override
+export const isEvaluatedMessage = (msg: ChatMessage) =>
+  msg.role === "tutor" && EVALUATIONS.includes(msg.feedbackType as Evaluation);
+
+export const getAnnotation = (
+  feedback: SupervisorFeedback | undefined,
+  messageIndex: number
+): MessageAnnotation | undefined =>
+  feedback?.annotations.find(annotation => annotation.message_index === messageIndex);
+
+// Verdict to show on a message, with the reviewer's override taking precedence
+export const getEffectiveEvaluation = (msg: ChatMessage, annotation?: MessageAnnotation): Evaluation | undefined =>
+  isEvaluatedMessage(msg) ? annotation?.evaluation_override ?? (msg.feedbackType as Evaluation) : undefined;
+
+// Replaces the annotation on one message; one left with neither a note nor an override is removed
+export const setAnnotation = (
+  feedback: SupervisorFeedback | undefined,
+  messageIndex: number,
+  { note, evaluation_override }: Pick<MessageAnnotation, "note" | "evaluation_override">
+): SupervisorFeedback => {
+  const current = feedback ?? EMPTY_FEEDBACK;
+  const others = current.annotations.filter(annotation => annotation.message_index !== messageIndex);
+  const trimmedNote = note?.trim();
+  if (!trimmedNote && !evaluation_override) return { ...current, annotations: others };
+
+  const annotation: MessageAnnotation = {
+    message_index: messageIndex,
+    ...(trimmedNote ? { note: trimmedNote } : {}),
+    ...(evaluation_override ? { evaluation_override } : {}),
+    updated_at: Date.now(),
+  };
+  return {
+    ...current,
+    annotations: [...others, annotation].sort((a, b) => a.message_index - b.message_index),
+  };
+};
+
+// Flags the diagnosis as wrong with the reviewer's reason; null clears the flag
+export const setDiagnosisFlag = (feedback: SupervisorFeedback | undefined, note: string | null): SupervisorFeedback => {
+  const { diagnosis_flag, ...current } = feedback ?? EMPTY_FEEDBACK;
+  return note === null ? current : { ...current, diagnosis_flag: { note: note.trim(), flagged_at: Date.now() } };
+};
+
+export const hasSupervisorFeedback = (feedback: SupervisorFeedback | undefined) =>
+  !!feedback && (feedback.annotations.length > 0 || !!feedback.diagnosis_flag);
+
+export const MIN_REVIEWER_PIN_LENGTH = 4;
+
+// The PIN keeps review mode away from the student on a shared device. It is stored
+// (hashed) in the profile's settings, so it deters casual use rather than a determined one.
+// A plain 53-bit string hash (cyrb53) is enough for that, and unlike SubtleCrypto it also
+// works when the app is opened over plain http from another device on the LAN.
+export const hashReviewerPin = (pin: string) => {
+  const text = `omni-tutor-reviewer:${pin}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
@@ -0,0 +1,141 @@
+import { ChatMessage, FeedbackResult, HintLevel, ReviewCard } from "../types";
+import { TutorErrorCode } from "./errors";
+import { TutorTask } from "./tutorProvider";
+
+// Contract between the browser and the tutor API server (server/)
+
+export const API_ROUTES = {
+  diagnose: "/api/diagnose",
+  evaluate: "/api/evaluate",
+  review: "/api/review",
+  hint: "/api/hint",
+  transcribe: "/api/transcribe",
+} as const;
+
+export const TUTOR_LANGUAGES = [
+  { code: "en", name: "English", nativeName: "English" },
+  { code: "zh-CN", name: "Simplified Chinese", nativeName: "简体中文" },
+  { code: "zh-TW", name: "Traditional Chinese", nativeName: "繁體中文" },
+  { code: "es", name: "Spanish", nativeName: "Español" },
+  { code: "fr", name: "French", nativeName: "Français" },
+  { code: "de", name: "German", nativeName: "Deutsch" },
+  { code: "ja", name: "Japanese", nativeName: "日本語" },
+  { code: "ko", name: "Korean", nativeName: "한국어" },
+];
+
+export const getTutorLanguageName = (code: string) =>
+  TUTOR_LANGUAGES.find(language => language.code === code)?.name ?? "English";
+
+// School years a learner profile can be set to
+export const GRADE_LEVELS = [
+  ...Array.from({ length: 12 }, (_, index) => ({ code: String(index + 1), name: `Grade ${index + 1}` })),
+  { code: "university", name: "University" },
+];
+
+export const getGradeLevelName = (code: string | undefined) =>
+  GRADE_LEVELS.find(level => level.code === code)?.name;
+
+// Learner settings that shape every prompt
+export interface TutorPreferences {
+  language: string; // Code from TUTOR_LANGUAGES
+  gradeLevel?: string; // Code from GRADE_LEVELS
+}
+
+// Base64-encoded file or recording
+export interface EncodedMedia {
+  mimeType: string;
+  data: string;
+}
+
+// Voice explanations; the recorder transcodes to WAV, which every provider accepts
+export const AUDIO_LIMITS = {
+  maxDurationSeconds: 120,
+  maxBytes: 8 * 1024 * 1024,
+};
+
+// Also the containers a recording keeps when transcoding fails; Safari records audio/mp4
+export const SUPPORTED_AUDIO_TYPES = [
+  "audio/wav",
+  "audio/mp3",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/aac",
+  "audio/flac",
+  "audio/webm",
+  "audio/mp4",
+  "audio/x-m4a",
+];
+
+export interface DiagnoseRequest {
+  pages: EncodedMedia[]; // In reading order
+  textContext: string;
+  audio: EncodedMedia | null;
+  preferences: TutorPreferences;
+}
+
+export interface EvaluateRequest {
+  practiceContext: { topic: string; question: string };
+  chatHistory: ChatMessage[];
+  currentInput: string;
+  audio: EncodedMedia | null;
+  images: EncodedMedia[]; // Sketches of the student's working
+  preferences: TutorPreferences;
+}
+
+export interface ReviewQuestionRequest {
+  card: ReviewCard;
+  previousQuestion: string;
+  preferences: TutorPreferences;
+}
+
+export interface HintRequest {
+  practiceContext: { topic: string; question: string };
+  chatHistory: ChatMessage[];
+  level: HintLevel;
+  preferences: TutorPreferences;
+}
+
+export interface TranscribeRequest {
+  audio: EncodedMedia;
+  preferences: TutorPreferences;
+}
+
+export interface ApiErrorBody {
+  code: TutorErrorCode;
+  task: TutorTask;
+  message: string;
+}
+
+// `/api/evaluate?stream=1` answers with one of these per line (NDJSON)
+export type EvaluateStreamEvent =
+  | { type: "partial"; text: string }
+  | { type: "result"; data: FeedbackResult }
+  | { type: "error"; error: ApiErrorBody };
+
+// Text of the tutor chat bubble for a (possibly partial) feedback reply
+export const formatFeedbackMessage = (feedbackMessage: string, nextInstruction: string) =>
+  nextInstruction ? `${feedbackMessage} ${nextInstruction}` : feedbackMessage;
+
+export const HINT_LEVEL_NAMES: Record<HintLevel, string> = {
+  1: "Nudge",
+  2: "Definition",
+  3: "Worked Step",
+};
+
+export const countHintsUsed = (chatHistory: ChatMessage[]) =>
+  chatHistory.filter(msg => msg.feedbackType === "HINT").length;
+
+// Next rung of the ladder: escalates with each hint since the student's last answer
+export const nextHintLevel = (chatHistory: ChatMessage[]): HintLevel => {
+  let hintsSinceAnswer = 0;
+  for (let i = chatHistory.length - 1; i >= 0 && chatHistory[i].role !== "user"; i--) {
+    if (chatHistory[i].feedbackType === "HINT") hintsSinceAnswer++;
+  }
+  return Math.min(hintsSinceAnswer + 1, 3) as HintLevel;
+};
+
+// Practice ladder: questions per diagnosis, one per difficulty level
+export const PRACTICE_LADDER_SIZE = 3;
+
+// Sessions open mid-ladder so there is room to step both down and up
+export const ladderStartIndex = (ladderLength: number) => Math.floor((ladderLength - 1) / 2);
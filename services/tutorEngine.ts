@@ -0,0 +1,451 @@
+import { Type, Schema } from "@google/genai";
+import { DiagnosisReport, ErrorSeverity, InitialDiagnosis, FeedbackResult, ReviewQuestion, HintResult, TranscriptResult, ChatMessage } from "../types";
+import { getTutorProvider, TutorPart } from "./tutorProvider";
+import { createValidator, generateValidated, readPartialStringField } from "./structuredOutput";
+import {
+  DiagnoseRequest,
+  EvaluateRequest,
+  HintRequest,
+  ReviewQuestionRequest,
+  TranscribeRequest,
+  TutorPreferences,
+  HINT_LEVEL_NAMES,
+  countHintsUsed,
+  formatFeedbackMessage,
+  getGradeLevelName,
+  getTutorLanguageName,
+  ladderStartIndex,
+  PRACTICE_LADDER_SIZE,
+} from "./tutorApi";
+
+// Prompting, validation and retries for each tutor task. Runs on the API server,
+// where the provider credentials live; the browser reaches it through geminiService.
+
+const boxCoordinate: Schema = { type: Type.INTEGER, minimum: 0, maximum: 1000 };
+
+const MAX_DIAGNOSED_ERRORS = 5;
+
+const SEVERITY_RANK: Record<ErrorSeverity, number> = { MAJOR: 0, MODERATE: 1, MINOR: 2 };
+
+// One distinct error within the Stage 1 diagnosis
+const diagnosedErrorSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    problem: { type: Type.STRING, description: "The worksheet problem the error came from, e.g. Q3(b)" },
+    severity: { type: Type.STRING, enum: ["MAJOR", "MODERATE", "MINOR"] },
+    conceptual_misunderstanding: { type: Type.STRING },
+    practice_questions: {
+      type: Type.ARRAY,
+      description: "Practice questions on the same misconception, one per difficulty level",
+      minItems: String(PRACTICE_LADDER_SIZE),
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          subject: { type: Type.STRING, description: "School subject, e.g. Physics" },
+          topic: { type: Type.STRING },
+          question_text: { type: Type.STRING },
+          difficulty: { type: Type.INTEGER, minimum: 1, maximum: PRACTICE_LADDER_SIZE },
+        },
+        required: ["subject", "topic", "question_text", "difficulty"],
+      },
+    },
+    tutor_feedback: { type: Type.STRING },
+    next_instruction: { type: Type.STRING },
+    error_page: { type: Type.INTEGER, description: "1-based number of the submitted page containing the error" },
+    error_step: { type: Type.STRING, description: "The step or line of work where the error occurs" },
+    error_box: {
+      type: Type.OBJECT,
+      description: "Bounding box of error_step on the error_page image, normalized to 0-1000",
+      properties: {
+        ymin: boxCoordinate,
+        xmin: boxCoordinate,
+        ymax: boxCoordinate,
+        xmax: boxCoordinate,
+      },
+      required: ["ymin", "xmin", "ymax", "xmax"],
+    },
+  },
+  required: ["problem", "severity", "conceptual_misunderstanding", "practice_questions", "tutor_feedback", "next_instruction"],
+};
+
+// Schema for Stage 1: Initial Diagnosis
+const diagnosisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    stage: { type: Type.STRING, enum: ["INITIAL_DIAGNOSIS"] },
+    errors: {
+      type: Type.ARRAY,
+      description: "Distinct errors in the submission, most important first",
+      minItems: "1",
+      items: diagnosedErrorSchema,
+    },
+  },
+  required: ["stage", "errors"],
+};
+
+// Schema for Stage 2: Conversational Feedback
+const feedbackSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    stage: { type: Type.STRING, enum: ["CONVERSATIONAL_FEEDBACK"] },
+    evaluation_result: { type: Type.STRING, enum: ["CORRECT", "CONCEPT_ERROR", "CALCULATION_ERROR"] },
+    feedback_message: { type: Type.STRING },
+    dialogue_action: { type: Type.STRING, enum: ["CONTINUE", "MASTERY_ACHIEVED"] },
+    next_instruction: { type: Type.STRING },
+  },
+  required: ["stage", "evaluation_result", "feedback_message", "dialogue_action", "next_instruction"],
+  // Message text first so it can be streamed; the verdict fields resolve at the end
+  propertyOrdering: ["stage", "feedback_message", "next_instruction", "evaluation_result", "dialogue_action"],
+};
+
+// Schema for spaced review: a fresh variant question on a past misconception
+const reviewQuestionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    topic: { type: Type.STRING },
+    question_text: { type: Type.STRING },
+    next_instruction: { type: Type.STRING },
+  },
+  required: ["topic", "question_text", "next_instruction"],
+};
+
+// Schema for the hint ladder
+const hintSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    hint_text: { type: Type.STRING },
+  },
+  required: ["hint_text"],
+};
+
+// Schema for voice input transcription
+const transcriptSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    transcript: { type: Type.STRING },
+  },
+  required: ["transcript"],
+};
+
+export const validateDiagnosis = createValidator<DiagnosisReport>(diagnosisSchema);
+export const validateFeedback = createValidator<FeedbackResult>(feedbackSchema);
+export const validateReviewQuestion = createValidator<ReviewQuestion>(reviewQuestionSchema);
+export const validateHint = createValidator<HintResult>(hintSchema);
+export const validateTranscript = createValidator<TranscriptResult>(transcriptSchema);
+
+// Learner preferences appended to every prompt, so replies come back in the chosen language
+// and pitched at the learner's school year
+const formatPreferences = ({ language, gradeLevel }: TutorPreferences) => {
+  const gradeName = getGradeLevelName(gradeLevel);
+  return `
+**输出语言 (Output Language):** 所有面向学生的文本字段（题目、反馈、提示、下一步指引）必须使用 **${getTutorLanguageName(language)}** 书写。JSON 字段名与枚举值保持英文原样。
+${gradeName ? `**学生年级 (Grade Level):** ${gradeName}。讲解的用词、举例和所用方法要符合该年级学生的水平，不要使用超出该年级的知识；练习题的难度也以该年级为准。
+` : ""}`;
+};
+
+// Markup the client renders (components/RichText.tsx): Markdown, LaTeX math and mhchem
+const MARKUP_RULES = `
+**排版格式 (Formatting):** 面向学生的文本字段使用 Markdown。所有数学公式、变量和单位都用 LaTeX 书写：行内公式用 $...$，独立成行的公式用 $$...$$；化学式和反应方程式用 mhchem，例如 $\\ce{2H2 + O2 -> 2H2O}$。不要用纯文本或 ASCII 表示公式（应写 $v = \\frac{\\Delta x}{\\Delta t}$，而不是 v = dx/dt）。JSON 字符串中的反斜杠必须转义。
+`;
+
+// Transcript for prompts; hints are labelled so the model knows how much help was given
+const formatTranscript = (chatHistory: ChatMessage[]) =>
+  chatHistory.map(msg => {
+    if (msg.role === 'user') return `Student: ${msg.content}`;
+    if (msg.feedbackType === 'HINT' && msg.hintLevel) {
+      return `Tutor (Hint, ${HINT_LEVEL_NAMES[msg.hintLevel]}): ${msg.content}`;
+    }
+    return `Tutor: ${msg.content}`;
+  }).join('\n');
+
+// Stage 1: Initial Diagnosis
+export const diagnoseHomework = async ({
+  pages,
+  textContext,
+  audio,
+  preferences,
+}: DiagnoseRequest): Promise<DiagnosisReport> => {
+  const parts: TutorPart[] = [];
+
+  const promptText = `
+# 角色定义：多模态学习过程诊断与辅导专家
+
+**核心任务:**
+你是一位经验丰富、充满耐心的专业导师。你的任务是分析学生首次提交的作业（包含手写图片和口述思路），找出其中**每一个相互独立的错误**，为每个错误识别核心概念偏差、生成一组难度递进、针对性强的定制化练习题，并开启一段指导学生解决其中第一道题的对话。
+
+**输入数据:**
+[User Text/Speech Transcript]: ${textContext || "No specific text provided."}
+
+---
+
+**分步推理与输出格式要求 (严格遵循):**
+
+1.  **多模态整合分析：** 作业共 ${pages.length} 页，每页之前标有 "[Page N]"，请按页码顺序阅读。准确识别图片中的手写内容，并结合学生的口述，找出作业中所有**相互独立**的错误，每个错误作为 errors 中的一项（最多 ${MAX_DIAGNOSED_ERRORS} 项）。源于同一个概念偏差的多处错误合并为一项；作业全对时只返回最值得巩固的一项。
+    * 对每个错误，在 problem 中写明它出自哪道题（沿用作业上的题号，例如 "Q3(b)"），并确定学生在**哪一页、哪个具体的步骤**出现了偏差，分别填入 error_page 和 error_step。error_step 请**原样抄写**出错的那一行或那一步。
+    * 如果 error_page 是图片，请在 error_box 中给出 error_step 在该页图片上的位置：以 (ymin, xmin, ymax, xmax) 表示、按图片高宽归一化到 0–1000 的整数坐标，框住出错的整行即可。如果该页是 PDF 或无法准确定位，则省略 error_box。
+2.  **核心错误诊断与排序：** 对每个错误确定学生偏差的**根本原因**（例如：混淆了“动量”和“能量”的概念；误解了“匀加速”的定义），并给出 severity：
+    * MAJOR：核心概念错误，会导致同类题目普遍出错；
+    * MODERATE：方法或步骤上的错误，影响本题结果；
+    * MINOR：单位、符号、抄写等细节错误。
+    errors 按重要性从高到低排列，最需要先解决的错误排在第一位。
+3.  **定制化练习题生成：** 针对**每个错误**各自的核心偏差，在其 practice_questions 中创作 ${PRACTICE_LADDER_SIZE} 道**全新的**练习题，difficulty 分别为 1 到 ${PRACTICE_LADDER_SIZE}，每个难度一道。所有题目的唯一目标都是**测试和强化**同一个知识点：
+    * 难度 1 是对原题的**最小修改**，只考查该概念本身；
+    * 难度越高，情境越新颖、步骤越多，但考查的核心概念不变；
+    * 题目之间不能只是改动数字。
+    * 每道题在 subject 中写明所属学科（例如“物理”“数学”“化学”），在 topic 中写明具体知识点；同一个错误的题目使用相同的 subject。
+4.  **启发式反馈与对话起点：** 针对每个错误分别生成一段**友善且不透露答案**的反馈，并以一个明确的“行动号召”结束，将学生带入对话循环。对话从**难度 ${ladderStartIndex(PRACTICE_LADDER_SIZE) + 1}** 的题目开始，next_instruction 必须针对这道题。
+${formatPreferences(preferences)}${MARKUP_RULES}
+**最终输出格式（必须是有效的 JSON，用于应用前端解析）:**
+Reference the defined JSON Schema.
+`;
+
+  parts.push({ text: promptText });
+
+  for (const [index, page] of pages.entries()) {
+    parts.push({ text: `[Page ${index + 1}]` });
+    parts.push({ inlineData: page });
+  }
+
+  if (audio) {
+    parts.push({ inlineData: audio });
+  }
+
+  try {
+    const report = await generateValidated(
+      getTutorProvider(),
+      { task: "diagnosis", parts, schema: diagnosisSchema },
+      validateDiagnosis
+    );
+
+    const errors = report.errors.map((data): InitialDiagnosis => {
+      // A box is only useful if it points at a page image and has an area
+      const box = data.error_box;
+      const errorPage = data.error_page ? pages[data.error_page - 1] : undefined;
+      if (box && (!errorPage?.mimeType.startsWith("image/") || box.ymin >= box.ymax || box.xmin >= box.xmax)) {
+        delete data.error_box;
+      }
+
+      // Easiest first; the dialogue opens on the question the ladder starts from
+      const practiceQuestions = [...data.practice_questions].sort((a, b) => a.difficulty - b.difficulty);
+
+      return {
+        ...data,
+        stage: "INITIAL_DIAGNOSIS",
+        practice_questions: practiceQuestions,
+        new_practice_question: practiceQuestions[ladderStartIndex(practiceQuestions.length)],
+        // Map new fields to old UI fields for fallback compatibility
+        diagnosed_error_step: data.error_step || "Concept Error",
+        status: "Diagnosis",
+      };
+    });
+
+    // Model order breaks ties; severity decides the ranking
+    errors.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    return { stage: "INITIAL_DIAGNOSIS", errors: errors.slice(0, MAX_DIAGNOSED_ERRORS) };
+  } catch (error) {
+    console.error("Stage 1 Error:", error);
+    throw error;
+  }
+};
+
+// Stage 2: Conversational Feedback
+// `onPartialFeedback` receives the chat bubble text as it streams in
+export const evaluateResponse = async (
+  { practiceContext, chatHistory, currentInput, audio, images = [], preferences }: EvaluateRequest,
+  onPartialFeedback?: (text: string) => void
+): Promise<FeedbackResult> => {
+  const parts: TutorPart[] = [];
+
+  const historyStr = formatTranscript(chatHistory);
+
+  const promptText = `
+# 角色定义：持续、情境感知、启发式辅导专家
+
+**核心任务:**
+你是一位专业的导师，正在指导学生解决一道**${practiceContext.topic}**的定制练习题。你的任务是基于学生当前的输入，判断其解题步骤是否正确，并提供即时、最小干预的引导，直到学生完全掌握知识点。
+
+**输入数据:**
+[Custom Question Topic]: ${practiceContext.topic}
+[Custom Question Text]: ${practiceContext.question}
+[Student Previous Attempts History]: 
+${historyStr}
+
+[Current Student Input]: ${currentInput || "(Audio Input Provided)"}
+[Attached Work]: ${images.length > 0 ? `${images.length} 份学生解题过程的照片或手绘（见 [Student Work N]），与文字输入一起评估。` : "None"}
+[Hints Used]: ${countHintsUsed(chatHistory)}
+
+---
+
+**分步推理与输出格式要求 (严格遵循):**
+
+1.  **情境分析与步骤评估：** 基于定制题文本和历史记录，判断学生输入是否是解决该题的**正确下一步**。
+2.  **错误类型鉴定：** 如果步骤错误，请精准判断错误类型：
+    * **Type A (概念错误):** 学生再次在核心概念上犯错（需要重点引导）。
+    * **Type B (计算/操作错误):** 仅是简单的计算或抄写错误（只需简单提醒）。
+3.  **生成定制化反馈：**
+    * **IF 正确：** 提供简洁的肯定和鼓励，并提示下一步操作。
+    * **IF 错误 (Type A 概念错误)：** **绝对不能直接纠正公式或答案。** 提出一个反思性的问题，或者要求学生回顾一个关键定义，以引导他们自我发现错误。
+    * **IF 错误 (Type B 计算错误)：** 明确指出错误所在（例如：检查负号或单位），但仍保持鼓励。
+4.  **判断本题是否完成：** 本题是一组难度递进练习中的一道，是否整体掌握由应用根据整组题判断。当学生完整、正确地解出**本题**时返回 MASTERY_ACHIEVED，此时 next_instruction 只需简短总结本题，不要另出新题。
+5.  **考虑提示使用情况：** 如果学生在本题中使用过提示（尤其是 "Worked Step" 级别），在他们**不借助提示**独立完成至少一个关键步骤之前，不要返回 MASTERY_ACHIEVED。
+${formatPreferences(preferences)}${MARKUP_RULES}
+**最终输出格式（必须是有效的 JSON）:**
+Reference the defined JSON Schema.
+`;
+
+  parts.push({ text: promptText });
+
+  for (const [index, image] of images.entries()) {
+    parts.push({ text: `[Student Work ${index + 1}]` });
+    parts.push({ inlineData: image });
+  }
+
+  if (audio) {
+    parts.push({ inlineData: audio });
+  }
+
+  try {
+    const onText = onPartialFeedback && ((textSoFar: string) => {
+      const feedbackMessage = readPartialStringField(textSoFar, "feedback_message");
+      if (feedbackMessage === null) return;
+      const nextInstruction = readPartialStringField(textSoFar, "next_instruction") ?? "";
+      onPartialFeedback(formatFeedbackMessage(feedbackMessage, nextInstruction));
+    });
+
+    return await generateValidated(
+      getTutorProvider(),
+      { task: "feedback", parts, schema: feedbackSchema },
+      validateFeedback,
+      undefined,
+      onText
+    );
+  } catch (error) {
+    console.error("Stage 2 Error:", error);
+    throw error;
+  }
+};
+
+// Spaced Review: new variant question targeting a previously diagnosed misconception
+export const createReviewQuestion = async ({
+  card,
+  previousQuestion,
+  preferences,
+}: ReviewQuestionRequest): Promise<ReviewQuestion> => {
+  const promptText = `
+# 角色定义：间隔复习出题专家
+
+**核心任务:**
+学生之前在**${card.topic}**上出现过以下核心概念错误。请创作一道**全新的**练习题，用于间隔复习，检验学生是否真正掌握了该知识点。
+
+**输入数据:**
+[Diagnosed Misconception]: ${card.misconception}
+[Previous Practice Question]: ${previousQuestion}
+[Review Number]: ${card.repetitions + 1}
+
+---
+
+**要求 (严格遵循):**
+
+1.  新题必须针对同一个核心错误，但**不能**与之前的练习题相同或只改动数字。
+2.  复习次数越多，情境可以越新颖，但难度保持适中。
+3.  next_instruction 是开启对话的第一句引导，**不能透露答案**。
+${formatPreferences(preferences)}${MARKUP_RULES}
+**最终输出格式（必须是有效的 JSON）:**
+Reference the defined JSON Schema.
+`;
+
+  try {
+    return await generateValidated(
+      getTutorProvider(),
+      { task: "review", parts: [{ text: promptText }], schema: reviewQuestionSchema },
+      validateReviewQuestion
+    );
+  } catch (error) {
+    console.error("Review Question Error:", error);
+    throw error;
+  }
+};
+
+const HINT_LEVEL_GUIDANCE: Record<HintRequest["level"], string> = {
+  1: "轻微提示 (Nudge)：只用一句话指出应该关注的方向或问一个引导性问题，不提及公式或概念名称以外的细节。",
+  2: "相关定义 (Definition)：给出解决当前步骤所需的关键概念定义或公式，并说明它与本题的关系，但不要代入本题数据。",
+  3: "类比示范 (Worked Step)：用一道**不同但类似**的简单例子完整演示对应步骤，然后请学生在本题中照做。绝对不能直接给出本题答案。",
+};
+
+// Hint Ladder: progressively stronger help when the student is stuck
+export const generateHint = async ({
+  practiceContext,
+  chatHistory,
+  level,
+  preferences,
+}: HintRequest): Promise<HintResult> => {
+  const promptText = `
+# 角色定义：分级提示导师
+
+**核心任务:**
+学生在解决一道**${practiceContext.topic}**的练习题时卡住了，主动请求提示。请根据指定的提示等级，给出恰到好处的帮助，帮助学生自己迈出下一步。
+
+**输入数据:**
+[Custom Question Topic]: ${practiceContext.topic}
+[Custom Question Text]: ${practiceContext.question}
+[Conversation So Far]:
+${formatTranscript(chatHistory)}
+
+[Requested Hint Level]: ${level} - ${HINT_LEVEL_GUIDANCE[level]}
+
+---
+
+**要求 (严格遵循):**
+
+1.  只针对学生当前所处的步骤给出提示，不要跳到后面的步骤。
+2.  严格遵守所请求等级的帮助程度，不要多给。
+3.  永远不要直接给出本题的最终答案。
+${formatPreferences(preferences)}${MARKUP_RULES}
+**最终输出格式（必须是有效的 JSON）:**
+Reference the defined JSON Schema.
+`;
+
+  try {
+    return await generateValidated(
+      getTutorProvider(),
+      { task: "hint", parts: [{ text: promptText }], schema: hintSchema },
+      validateHint
+    );
+  } catch (error) {
+    console.error("Hint Error:", error);
+    throw error;
+  }
+};
+
+// Voice input: verbatim transcript the student can correct before it is sent
+export const transcribeAudio = async ({ audio, preferences }: TranscribeRequest): Promise<TranscriptResult> => {
+  const promptText = `
+# 角色定义：学生口述转写员
+
+**核心任务:**
+请将随附的学生录音**逐字转写**为文本。学生正在口述解题思路，录音中可能包含公式、数字和单位。
+
+---
+
+**要求 (严格遵循):**
+
+1.  按学生实际所说的语言转写（学生很可能使用 **${getTutorLanguageName(preferences.language)}**），不要翻译。
+2.  不要纠正、评价或补全学生的推理，即使其中有错误；只做转写。
+3.  口述的公式、数字和单位用常规书写符号表示（例如 "a 等于 v 除以 t" 写作 "a = v / t"）。
+4.  去掉 "嗯"、"呃" 等语气词；如果录音中没有可辨认的语音，返回空字符串。
+
+**最终输出格式（必须是有效的 JSON）:**
+Reference the defined JSON Schema.
+`;
+
+  try {
+    return await generateValidated(
+      getTutorProvider(),
+      { task: "transcription", parts: [{ text: promptText }, { inlineData: audio }], schema: transcriptSchema },
+      validateTranscript
+    );
+  } catch (error) {
+    console.error("Transcription Error:", error);
+    throw error;
+  }
+};
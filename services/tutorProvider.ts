@@ -0,0 +1,67 @@
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+import { createOpenAICompatibleProvider } from "./openaiProvider";
+
+// A single prompt fragment: plain text or base64-encoded media
+export type TutorPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export type TutorTask = "diagnosis" | "feedback" | "review" | "hint" | "transcription";
+
+export interface TutorRequest {
+  task: TutorTask;
+  parts: TutorPart[];
+  // Expected shape of the JSON reply, in Gemini schema notation
+  schema: Schema;
+}
+
+// Receives the full text generated so far each time a new chunk arrives
+export type StreamListener = (textSoFar: string) => void;
+
+// Backend that turns a multimodal prompt into a JSON string matching `schema`
+export interface TutorProvider {
+  name: string;
+  generateStructured: (request: TutorRequest) => Promise<string>;
+  // Same contract as generateStructured, reporting the reply as it is generated
+  streamStructured: (request: TutorRequest, onText: StreamListener) => Promise<string>;
+}
+
+export type TutorProviderName = "gemini" | "fixture" | "openai";
+
+const createProvider = (name: string | undefined): TutorProvider => {
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider();
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || "llava",
+      });
+    case "gemini":
+    case undefined:
+    case "":
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_MODEL || "gemini-2.5-flash",
+      });
+    default:
+      throw new Error(`Unknown tutor provider "${name}". Use gemini, fixture, or openai.`);
+  }
+};
+
+let activeProvider: TutorProvider | null = null;
+
+export const getTutorProvider = (): TutorProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(process.env.TUTOR_PROVIDER);
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime (demos, tests); pass null to fall back to the env setting
+export const setTutorProvider = (provider: TutorProvider | null) => {
+  activeProvider = provider;
+};
@@ -21,3 +21,17 @@ export const blobToGenerativePart = async (blob: Blob): Promise<string> => {
     reader.readAsDataURL(blob);
   });
 };
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
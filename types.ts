@@ -1,21 +1,53 @@
 export interface PracticeQuestion {
-  subject?: string; // Optional as per new prompt
+  subject?: string; // Absent on items saved before the diagnosis asked for it
   topic: string;
   question_text: string;
+  difficulty?: number; // 1 (easiest) to 3, on practice ladders
+}
+
+// Where a student is on a practice ladder; `passed[i]` is set once question i is solved
+export interface PracticeProgress {
+  current: number;
+  passed: boolean[];
+}
+
+// Bounding box on a page image, in 0-1000 units of its height/width
+export interface ErrorBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
 }
 
 // Stage 1 Output
+export type ErrorSeverity = "MAJOR" | "MODERATE" | "MINOR";
+
+// One distinct error found in a submission, with its own practice questions
 export interface InitialDiagnosis {
   stage: "INITIAL_DIAGNOSIS";
   conceptual_misunderstanding: string;
-  new_practice_question: PracticeQuestion;
+  problem?: string; // Worksheet problem the error came from, e.g. "Q3(b)"
+  severity?: ErrorSeverity;
+  new_practice_question: PracticeQuestion; // The question the dialogue opens on
+  // Questions on the same misconception, easiest first (absent on older items and reviews)
+  practice_questions?: PracticeQuestion[];
   tutor_feedback: string;
   next_instruction: string;
+  // Where the error was found in a multi-page submission
+  error_page?: number; // 1-based, in submission order
+  error_step?: string;
+  error_box?: ErrorBox; // Region of `error_step` on that page's image
   // Legacy/Compatibility fields (mapped from new fields if needed)
   diagnosed_error_step?: string;
   status?: string;
 }
 
+// Every distinct error in a submission, most important first
+export interface DiagnosisReport {
+  stage: "INITIAL_DIAGNOSIS";
+  errors: InitialDiagnosis[];
+}
+
 // Stage 2 Output
 export interface FeedbackResult {
   stage: "CONVERSATIONAL_FEEDBACK";
@@ -25,23 +57,161 @@ export interface FeedbackResult {
   next_instruction: string;
 }
 
+// Fresh variant of a past practice question, for spaced review
+export interface ReviewQuestion {
+  topic: string;
+  question_text: string;
+  next_instruction: string;
+}
+
 export type AnalysisResult = InitialDiagnosis;
 
+// Crop area of an uploaded photo
+export interface CropRect {
+  // Fractions of the rotated image, 0..1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// In-browser adjustments to an uploaded photo
+export interface ImageEdits {
+  quarterTurns: number; // Clockwise 90° steps
+  straighten: number; // Fine rotation in degrees, e.g. from auto-deskew
+  crop: CropRect;
+  contrast: number; // 1 = unchanged
+}
+
+// One uploaded page of a homework submission (image or PDF)
+export interface HomeworkPage {
+  id: string;
+  file: File; // What gets submitted; photos are already preprocessed
+  original: File; // As uploaded, so edits can be redone without compounding loss
+  edits?: ImageEdits;
+  previewUrl: string;
+  unavailable?: boolean; // Saved page whose image was evicted; kept so page numbers still match
+}
+
+// Sketch or photo attached to a practice reply
+export interface ReplyAttachment {
+  id: string;
+  file: Blob;
+  name?: string;
+  previewUrl: string;
+}
+
+// Hint ladder: 1 = nudge, 2 = relevant definition, 3 = worked analogous step
+export type HintLevel = 1 | 2 | 3;
+
+export interface HintResult {
+  hint_text: string;
+}
+
+export interface TranscriptResult {
+  transcript: string;
+}
+
+export interface MessageAttachment {
+  url: string;
+  mimeType: string;
+  name?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'tutor';
   content: string;
   audioUrl?: string;
+  attachments?: MessageAttachment[]; // Sketches or photos of work on a user message
   timestamp: number;
   // For tutor messages
-  feedbackType?: "CORRECT" | "CONCEPT_ERROR" | "CALCULATION_ERROR" | "INFO"; 
+  feedbackType?: "CORRECT" | "CONCEPT_ERROR" | "CALCULATION_ERROR" | "INFO" | "HINT"; 
+  hintLevel?: HintLevel; // Set when feedbackType is HINT
+  questionIndex?: number; // Practice ladder question the message belongs to (0 when absent)
+}
+
+// Note from a teacher or parent on one message of a session
+export interface MessageAnnotation {
+  message_index: number; // Position in chat_history
+  note?: string;
+  evaluation_override?: FeedbackResult["evaluation_result"]; // Replaces the tutor's verdict on evaluated messages
+  updated_at: number;
+}
+
+// What a teacher or parent reviewing a session left for the student
+export interface SupervisorFeedback {
+  annotations: MessageAnnotation[];
+  diagnosis_flag?: { note: string; flagged_at: number }; // Set when they believe the diagnosis is wrong
 }
 
 export interface HistoryItem extends InitialDiagnosis {
   id: string;
   timestamp: number;
   user_context?: string;
+  // Practice session state (absent on items saved before transcripts were kept)
+  chat_history?: ChatMessage[];
+  mastery_achieved?: boolean;
+  practice_progress?: PracticeProgress;
+  page_media?: string[]; // Stored homework pages, as mediaService references
+  // Errors diagnosed from the same submission share an id; rank 1 is the most important
+  submission_id?: string;
+  error_rank?: number;
+  // Set on review sessions: id of the history item whose misconception is being reviewed
+  review_of?: string;
+  // Added by the student to organise their history
+  tags?: string[];
+  starred?: boolean;
+  supervisor_feedback?: SupervisorFeedback;
+}
+
+// Spaced-repetition state (SM-2) for one diagnosed misconception
+export interface ReviewCard {
+  historyId: string;
+  topic: string;
+  subject?: string;
+  misconception: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
 }
 
 export interface AnalysisError {
   message: string;
 }
+
+// Learner model: running mastery estimate per concept
+export type LearningOutcome = "DIAGNOSED" | FeedbackResult["evaluation_result"] | "MASTERY_ACHIEVED";
+
+export interface MasterySnapshot {
+  timestamp: number;
+  mastery: number; // 0..1 after applying `outcome`
+  outcome: LearningOutcome;
+}
+
+export interface ConceptMastery {
+  key: string; // Normalized topic
+  topic: string;
+  subject?: string;
+  mastery: number; // 0..1
+  misconceptions: string[]; // Most recent first
+  outcomeCounts: Record<LearningOutcome, number>;
+  history: MasterySnapshot[];
+  lastSeen: number;
+}
+
+// Learner sharing the device; history, progress and settings are kept per profile
+export interface LearnerProfile {
+  id: string;
+  name: string; // Empty for the profile created implicitly before any were set up
+  gradeLevel?: string; // Code from GRADE_LEVELS
+  createdAt: number;
+}
+
+// Per-profile preferences
+export interface AppSettings {
+  uiLocale: 'en' | 'zh-CN';
+  tutorLanguage: string; // Code from TUTOR_LANGUAGES
+  reviewerPinHash?: string; // Set once a teacher or parent chooses a PIN for review mode
+}